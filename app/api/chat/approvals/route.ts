@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveApproval } from "@/lib/chat/approvals";
+import type { MCPApiResponse, ToolApprovalRequest } from "@/lib/mcp/types";
+
+export async function POST(req: NextRequest) {
+  try {
+    const { toolCallId, approved, arguments: args }: ToolApprovalRequest = await req.json();
+
+    if (!toolCallId || typeof approved !== "boolean") {
+      return NextResponse.json<MCPApiResponse>(
+        { success: false, error: "Tool call ID and decision are required" },
+        { status: 400 }
+      );
+    }
+
+    const delivered = resolveApproval(toolCallId, {
+      approved,
+      arguments: approved && args && typeof args === "object" ? args : undefined,
+      reason: approved ? undefined : "Rejected by the user",
+    });
+
+    if (!delivered) {
+      return NextResponse.json<MCPApiResponse>(
+        { success: false, error: "Tool call is not waiting for approval" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<MCPApiResponse>({ success: true });
+  } catch (error) {
+    console.error("Tool approval error:", error);
+    return NextResponse.json<MCPApiResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to deliver approval",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPendingElicitation, resolveElicitation } from "@/lib/mcp/elicitation";
+import { validateElicitationContent } from "@/lib/mcp/elicitation-schema";
+import type { ElicitationAction, ElicitationResponseRequest, MCPApiResponse } from "@/lib/mcp/types";
+
+const ACTIONS: ElicitationAction[] = ["accept", "decline", "cancel"];
+
+export async function POST(req: NextRequest) {
+  try {
+    const { requestId, action, content }: ElicitationResponseRequest = await req.json();
+
+    if (!requestId || !ACTIONS.includes(action)) {
+      return NextResponse.json<MCPApiResponse>(
+        { success: false, error: "Request ID and a valid action are required" },
+        { status: 400 }
+      );
+    }
+
+    const request = getPendingElicitation(requestId);
+    if (!request) {
+      return NextResponse.json<MCPApiResponse>(
+        { success: false, error: "Elicitation request is not waiting for an answer" },
+        { status: 404 }
+      );
+    }
+
+    // The request stays pending, so the user can correct the form and submit again
+    const invalid = action === "accept" ? validateElicitationContent(request.requestedSchema, content) : null;
+    if (invalid) {
+      return NextResponse.json<MCPApiResponse>({ success: false, error: invalid }, { status: 400 });
+    }
+
+    resolveElicitation(requestId, { action, content: action === "accept" ? content : undefined });
+
+    return NextResponse.json<MCPApiResponse>({ success: true });
+  } catch (error) {
+    console.error("Elicitation response error:", error);
+    return NextResponse.json<MCPApiResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to deliver response",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,375 +1,435 @@
-import { GoogleGenAI, Type, FunctionDeclaration } from "@google/genai";
 import { NextRequest } from "next/server";
 import { mcpClientManager } from "@/lib/mcp/client-manager";
+import { routeElicitations, waitForElicitation } from "@/lib/mcp/elicitation";
+import { MCPRequestError } from "@/lib/mcp/retry";
+import { getServerToolPolicy } from "@/lib/mcp/server-settings";
 import type { ToolCallInfo } from "@/lib/mcp/types";
-import { uploadChatImage, saveChatImageMetadata } from "@/lib/supabase";
+import { getSessionSummary, updateSessionSummary } from "@/lib/supabase";
+import {
+  encodeChatEvent,
+  CHAT_STREAM_PROTOCOL_VERSION,
+  CHAT_STREAM_VERSION_HEADER,
+  type ChatStreamEvent,
+  type ChatUsage,
+} from "@/lib/chat/events";
+import { waitForApproval } from "@/lib/chat/approvals";
+import { processResultImages } from "@/lib/chat/images";
+import { estimateTokens, fitContextWindow } from "@/lib/chat/context";
+import type { ChatHistoryMessage } from "@/lib/chat/history";
+import {
+  buildToolDefinitions,
+  isLLMProviderId,
+  resolveLLM,
+  resolveToolName,
+  type LLMMessage,
+  type LLMToolCall,
+  type LLMToolResult,
+  type MCPToolWithServerId,
+} from "@/lib/llm";
 
-// Types for MCP result content
-interface MCPImageContent {
-  type: "image";
-  data: string;
-  mimeType: string;
-}
+// Get all tools from connected MCP servers
+async function getConnectedMCPTools() {
+  const allStatuses = mcpClientManager.getAllStatuses();
+  console.log("All MCP statuses:", allStatuses);
+  
+  const connectedServers = allStatuses.filter((s) => s.status === "connected");
+  console.log("Connected servers:", connectedServers.length);
 
-interface MCPTextContent {
-  type: "text";
-  text: string;
-}
+  const allTools: MCPToolWithServerId[] = [];
 
-type MCPContent = MCPImageContent | MCPTextContent;
+  for (const status of connectedServers) {
+    const capabilities = mcpClientManager.getCapabilities(status.serverId);
+    console.log(`Capabilities for ${status.serverId}:`, capabilities?.tools?.length || 0, "tools");
+    if (capabilities?.tools) {
+      for (const tool of capabilities.tools) {
+        allTools.push({
+          ...tool,
+          serverId: status.serverId,
+          serverName: mcpClientManager.getConfig(status.serverId)?.name || status.serverId,
+        });
+      }
+    }
+  }
 
-interface MCPResult {
-  content?: MCPContent[];
+  return allTools;
 }
 
-// Extended content with storage URL and path
-interface StorageImageContent {
-  type: "image";
-  data: string;
-  mimeType: string;
-  storageUrl?: string;
-  storagePath?: string;
+// Default cap on model <-> tool round trips per chat request
+const DEFAULT_MAX_TOOL_ITERATIONS = 5;
+
+function getMaxToolIterations(): number {
+  const configured = Number(process.env.CHAT_MAX_TOOL_ITERATIONS);
+  return Number.isInteger(configured) && configured > 0
+    ? configured
+    : DEFAULT_MAX_TOOL_ITERATIONS;
 }
 
 /**
- * Process MCP result and upload any images to Storage
- * Also saves image metadata to chat_images table with message_id
- * Returns the result with storage URLs added to image content
+ * Mark a tool call as not run and tell the model why
  */
-async function processResultImages(
-  result: unknown,
-  toolCallId: string,
-  messageId?: string
-): Promise<unknown> {
-  if (!result || typeof result !== "object") return result;
-
-  const mcpResult = result as MCPResult;
-  if (!mcpResult.content || !Array.isArray(mcpResult.content)) return result;
-
-  const processedContent: (MCPContent | StorageImageContent)[] = [];
-
-  for (const item of mcpResult.content) {
-    if (item.type === "image" && typeof item.data === "string") {
-      const mimeType = item.mimeType || "image/png";
-      
-      // Upload image to Storage
-      const uploadResult = await uploadChatImage(
-        item.data,
-        mimeType,
-        toolCallId
-      );
-
-      if (uploadResult) {
-        // Add storage URL to the image content
-        processedContent.push({
-          ...item,
-          storageUrl: uploadResult.url,
-          storagePath: uploadResult.path,
-        } as StorageImageContent);
-        
-        // Save image metadata to DB with message_id
-        await saveChatImageMetadata(
-          messageId, // Now we have the actual message_id!
-          uploadResult.path,
-          mimeType,
-          toolCallId
-        );
-        
-        console.log(`Image uploaded and metadata saved with message_id ${messageId}: ${uploadResult.url}`);
-      } else {
-        // Keep original if upload failed
-        processedContent.push(item);
-        console.error("Failed to upload image to Storage");
-      }
-    } else {
-      processedContent.push(item);
-    }
-  }
+function rejectToolCall(
+  call: LLMToolCall,
+  toolCallInfo: ToolCallInfo,
+  reason: string,
+  emit: (event: ChatStreamEvent) => void
+): LLMToolResult {
+  toolCallInfo.status = "rejected";
+  toolCallInfo.error = reason;
+  toolCallInfo.completedAt = Date.now();
+  emit({ type: "tool_call.result", toolCall: toolCallInfo });
 
   return {
-    ...mcpResult,
-    content: processedContent,
+    callId: call.id,
+    name: call.name,
+    result: { error: `Tool call was not run: ${reason}` },
+    isError: true,
   };
 }
 
-// Convert MCP tool schema to Gemini function declaration format
-function convertToGeminiFunctions(tools: Array<{
-  name: string;
-  description?: string;
-  inputSchema?: Record<string, unknown>;
-  serverId: string;
-}>): { declarations: FunctionDeclaration[]; toolMap: Map<string, { serverId: string; toolName: string }> } {
-  const toolMap = new Map<string, { serverId: string; toolName: string }>();
-  
-  const declarations = tools.map((tool, index) => {
-    // Create a safe function name: must start with letter/underscore, alphanumeric only
-    // Use index to ensure uniqueness, and sanitize tool name
-    const sanitizedToolName = tool.name.replace(/[^a-zA-Z0-9_]/g, "_");
-    const safeName = `mcp_${index}_${sanitizedToolName}`.substring(0, 64);
-    
-    toolMap.set(safeName, {
-      serverId: tool.serverId,
-      toolName: tool.name,
-    });
-
-    const parameters: Record<string, unknown> = {};
-    
-    if (tool.inputSchema && typeof tool.inputSchema === "object") {
-      const schema = tool.inputSchema as Record<string, unknown>;
-      
-      // Handle JSON Schema format
-      if (schema.properties) {
-        parameters.type = Type.OBJECT;
-        parameters.properties = {};
-        
-        const props = schema.properties as Record<string, unknown>;
-        for (const [key, value] of Object.entries(props)) {
-          const prop = value as Record<string, unknown>;
-          (parameters.properties as Record<string, unknown>)[key] = {
-            type: mapJsonSchemaTypeToGemini(prop.type as string),
-            description: prop.description || "",
-          };
-        }
-        
-        if (schema.required && Array.isArray(schema.required)) {
-          parameters.required = schema.required;
-        }
-      } else {
-        parameters.type = Type.OBJECT;
-        parameters.properties = {};
-      }
-    } else {
-      parameters.type = Type.OBJECT;
-      parameters.properties = {};
-    }
-
+/**
+ * Execute a single model tool call against its MCP tool
+ * Tools with the "ask" policy wait for the user's approval (tool_call.approval) first.
+ * Emits tool_call.start/tool_call.result events and returns the result for the model
+ */
+async function executeToolCall(
+  call: LLMToolCall,
+  messageId: string | undefined,
+  emit: (event: ChatStreamEvent) => void,
+  signal: AbortSignal
+): Promise<LLMToolResult> {
+  // Names are stable across requests, so calls replayed from history resolve too
+  const originalInfo = resolveToolName(call.name);
+
+  if (!originalInfo) {
+    // Tell the model instead of silently dropping the call, so it can recover
     return {
-      name: safeName,
-      description: tool.description || tool.name,
-      parameters,
+      callId: call.id,
+      name: call.name,
+      result: { error: `Unknown tool: ${call.name}` },
+      isError: true,
     };
-  });
+  }
 
-  return { declarations, toolMap };
-}
+  const tool = mcpClientManager
+    .getCapabilities(originalInfo.serverId)
+    ?.tools.find((t) => t.name === originalInfo.toolName);
+  const policy = getServerToolPolicy(originalInfo.serverId, originalInfo.toolName);
+  const toolCallId = `tc_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+  const toolCallInfo: ToolCallInfo = {
+    id: toolCallId,
+    toolName: originalInfo.toolName,
+    serverId: originalInfo.serverId,
+    serverName: originalInfo.serverName,
+    functionName: call.name,
+    toolTitle: tool?.title,
+    annotations: tool?.annotations,
+    arguments: call.arguments,
+    status: policy === "ask" ? "pending_approval" : "calling",
+    startedAt: Date.now(),
+  };
 
-function mapJsonSchemaTypeToGemini(type: string): Type {
-  switch (type) {
-    case "string":
-      return Type.STRING;
-    case "number":
-    case "integer":
-      return Type.NUMBER;
-    case "boolean":
-      return Type.BOOLEAN;
-    case "array":
-      return Type.ARRAY;
-    case "object":
-      return Type.OBJECT;
-    default:
-      return Type.STRING;
+  if (policy === "deny") {
+    return rejectToolCall(call, toolCallInfo, "This tool is blocked by its approval policy", emit);
   }
-}
 
-// Get all tools from connected MCP servers
-async function getConnectedMCPTools() {
-  const allStatuses = mcpClientManager.getAllStatuses();
-  console.log("All MCP statuses:", allStatuses);
+  if (policy === "ask") {
+    emit({ type: "tool_call.approval", toolCall: toolCallInfo });
+
+    const decision = await waitForApproval(toolCallId, signal);
+    if (!decision.approved) {
+      return rejectToolCall(call, toolCallInfo, decision.reason ?? "Rejected by the user", emit);
+    }
+
+    if (decision.arguments) {
+      // The model turn is added to the conversation after all results,
+      // so it records the arguments the tool actually ran with
+      call.arguments = decision.arguments;
+      toolCallInfo.arguments = decision.arguments;
+    }
+    toolCallInfo.status = "calling";
+  }
   
-  const connectedServers = allStatuses.filter((s) => s.status === "connected");
-  console.log("Connected servers:", connectedServers.length);
+  // Send tool call start event
+  emit({ type: "tool_call.start", toolCall: toolCallInfo });
 
-  const allTools: Array<{
-    name: string;
-    description?: string;
-    inputSchema?: Record<string, unknown>;
-    serverId: string;
-  }> = [];
+  // Input the server asks for while the tool runs is shown on its card
+  const stopElicitations = routeElicitations(originalInfo.serverId, async (request, requestSignal) => {
+    toolCallInfo.elicitation = request;
+    emit({ type: "tool_call.elicitation", toolCall: toolCallInfo });
 
-  for (const status of connectedServers) {
-    const capabilities = mcpClientManager.getCapabilities(status.serverId);
-    console.log(`Capabilities for ${status.serverId}:`, capabilities?.tools?.length || 0, "tools");
-    if (capabilities?.tools) {
-      for (const tool of capabilities.tools) {
-        allTools.push({
-          ...tool,
-          serverId: status.serverId,
-        });
+    const response = await waitForElicitation(request, AbortSignal.any([signal, requestSignal]));
+
+    toolCallInfo.elicitation = undefined;
+    emit({ type: "tool_call.elicitation", toolCall: toolCallInfo });
+    return response;
+  });
+  
+  try {
+    // Call MCP tool
+    const result = await mcpClientManager.callTool(
+      originalInfo.serverId,
+      originalInfo.toolName,
+      call.arguments,
+      {
+        signal,
+        // Show retries on the card while the call is still running
+        onRetry: (attempt) => {
+          Object.assign(toolCallInfo, attempt);
+          emit({ type: "tool_call.start", toolCall: toolCallInfo });
+        },
+        onProgress: (progress) => {
+          toolCallInfo.progress = progress;
+          emit({ type: "tool_call.progress", toolCallId, progress });
+        },
       }
+    );
+    
+    // Process images in result and upload to Storage (with message_id for DB linking)
+    const processedResult = await processResultImages(result, toolCallId, messageId);
+    
+    // Update tool call info with processed result (includes storage URLs)
+    toolCallInfo.status = "success";
+    toolCallInfo.result = processedResult;
+    toolCallInfo.progress = undefined;
+    toolCallInfo.completedAt = Date.now();
+    
+    // Send tool call result event
+    emit({ type: "tool_call.result", toolCall: toolCallInfo });
+
+    return {
+      callId: call.id,
+      name: call.name,
+      result,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+
+    // Update tool call info with error
+    if (error instanceof MCPRequestError) {
+      Object.assign(toolCallInfo, error.attempt);
     }
+    toolCallInfo.status = "error";
+    toolCallInfo.error = message;
+    toolCallInfo.progress = undefined;
+    toolCallInfo.completedAt = Date.now();
+    
+    // Send tool call error event
+    emit({ type: "tool_call.result", toolCall: toolCallInfo });
+    
+    console.error("Tool call error:", error);
+    return {
+      callId: call.id,
+      name: call.name,
+      result: { error: message },
+      isError: true,
+    };
+  } finally {
+    stopElicitations();
   }
-
-  return allTools;
 }
 
 export async function POST(req: NextRequest) {
   try {
-    const { messages, mcpEnabled = true, messageId } = await req.json();
-    const apiKey = process.env.GEMINI_API_KEY;
-
-    if (!apiKey) {
-      return new Response("GEMINI_API_KEY is not set", { status: 500 });
+    const {
+      messages,
+      mcpEnabled = true,
+      messageId,
+      sessionId,
+      provider: requestedProvider,
+      model: requestedModel,
+    } = await req.json();
+
+    let llm: ReturnType<typeof resolveLLM>;
+    try {
+      llm = resolveLLM({
+        provider: isLLMProviderId(requestedProvider) ? requestedProvider : undefined,
+        model: typeof requestedModel === "string" && requestedModel ? requestedModel : undefined,
+      });
+    } catch (error) {
+      return new Response(error instanceof Error ? error.message : "LLM provider is not configured", { status: 500 });
     }
-
-    const ai = new GoogleGenAI({ apiKey });
+    const { provider, model } = llm;
 
     // Get connected MCP tools only if enabled
     const mcpTools = mcpEnabled ? await getConnectedMCPTools() : [];
-    const { declarations, toolMap } = convertToGeminiFunctions(mcpTools);
+    const definitions = buildToolDefinitions(mcpTools);
 
-    // Map messages to Gemini format
-    const history = messages.map((msg: { role: string; content: string }) => ({
-      role: msg.role === "assistant" ? "model" : "user",
-      parts: [{ text: msg.content }],
-    }));
+    // Convert tool definitions once into the provider's format
+    const { tools, warnings } = provider.convertTools(definitions);
+    if (warnings.length > 0) {
+      console.warn(`Tool schema conversion for ${provider.id} dropped or approximated:\n  ${warnings.join("\n  ")}`);
+    }
 
-    // Build config with tools if available
-    const toolNames = mcpTools.map(t => t.name).join(", ");
+    // Build system instruction with tools if available
+    const toolNames = mcpTools.map(t => `${t.name} (${t.serverName})`).join(", ");
     
-    const config: Record<string, unknown> = {
-      systemInstruction: `You are a helpful assistant. 코드블럭이 있다면 코드블럭을 제대로 열고 닫아.
+    const system = `You are a helpful assistant. 코드블럭이 있다면 코드블럭을 제대로 열고 닫아.
 ${mcpTools.length > 0 ? `
 You have access to the following tools: ${toolNames}
 
 IMPORTANT: When the user asks about time, date, or timezone information, you MUST use the available time-related tools to get accurate current time. Do NOT guess or make up the time. Always call the tool first, then respond based on the tool's result.
 
-Use tools when appropriate to help the user with accurate information.` : ""}`,
-    };
+Use tools when appropriate to help the user with accurate information.` : ""}`;
 
-    // Add tools to config if available
-    if (declarations.length > 0) {
-      config.tools = [{
-        functionDeclarations: declarations,
-      }];
-    }
+    // Earlier turns already folded into the session's rolling summary
+    const storedSummary = typeof sessionId === "string" && sessionId ? await getSessionSummary(sessionId) : null;
 
+    console.log(`LLM: ${provider.id} / ${model}`);
     console.log("MCP Tools available:", mcpTools.length, mcpTools.map(t => t.name));
-    console.log("Declarations:", declarations.length);
+    console.log("Declarations:", definitions.length);
 
-    // Use SSE stream for real-time tool call updates
+    // Aborted when the client stops generating or goes away, or when the stream fails;
+    // cancels the model stream, approval waits and running MCP tool calls
+    const clientSignal = req.signal;
+    const requestAbort = new AbortController();
+    const signal = AbortSignal.any([clientSignal, requestAbort.signal]);
+
+    // Stream typed SSE events (see lib/chat/events.ts)
     const encoder = new TextEncoder();
+    const maxIterations = getMaxToolIterations();
     
     const stream = new ReadableStream({
       async start(controller) {
+        let hasText = false;
+        let closed = false;
+        const usage: ChatUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+        // Tool calls of the current turn; awaited before the stream closes
+        let pendingResults: Promise<LLMToolResult>[] = [];
+
+        const send = (event: ChatStreamEvent) => {
+          // Nobody is listening any more
+          if (closed || clientSignal.aborted) return;
+          try {
+            controller.enqueue(encoder.encode(encodeChatEvent(event)));
+          } catch {
+            // The client cancelled the stream
+            closed = true;
+          }
+        };
+
+        // Stream a text delta; turns after the first are separated by a blank line
+        const emitText = (text: string, startsTurn: boolean) => {
+          const delta = startsTurn && hasText ? `\n\n${text}` : text;
+          hasText = true;
+          send({ type: "text.delta", text: delta });
+        };
+
         try {
-          // Non-streaming approach for function calling
-          const response = await ai.models.generateContent({
-            model: "gemini-2.0-flash-001",
-            contents: history,
-            config,
+          // Map messages to the provider-neutral format within the model's context budget,
+          // folding the oldest turns into the rolling summary when needed
+          const context = await fitContextWindow({
+            messages: messages as ChatHistoryMessage[],
+            summary: storedSummary,
+            provider,
+            model,
+            reservedTokens: estimateTokens(system + JSON.stringify(definitions)),
+            signal,
           });
 
-          // Check if there's a function call
-          const candidate = response.candidates?.[0];
-          const parts = candidate?.content?.parts || [];
-          
-          console.log("Response parts:", JSON.stringify(parts, null, 2));
-          
-          let finalText = "";
-          const toolCalls: ToolCallInfo[] = [];
-
-          for (const part of parts) {
-            if (part.text) {
-              finalText += part.text;
+          // Never store a summary once the request was stopped
+          if (context.summaryChanged && context.summary && !signal.aborted) {
+            console.log(`Context: ${context.summary.messageCount} earlier messages summarised`);
+            send({ type: "context.summarized", summary: context.summary });
+            if (sessionId) {
+              await updateSessionSummary(sessionId, context.summary);
             }
-            
-            if (part.functionCall) {
-              const fnCall = part.functionCall;
-              const originalInfo = toolMap.get(fnCall.name || "");
-              
-              if (originalInfo) {
-                const toolCallId = `tc_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
-                const toolCallInfo: ToolCallInfo = {
-                  id: toolCallId,
-                  toolName: originalInfo.toolName,
-                  serverId: originalInfo.serverId,
-                  arguments: fnCall.args as Record<string, unknown>,
-                  status: "calling",
-                  startedAt: Date.now(),
-                };
-                
-                // Send tool call start event
-                controller.enqueue(encoder.encode(`[TOOL_CALL]${JSON.stringify(toolCallInfo)}[/TOOL_CALL]`));
-                
-                try {
-                  // Call MCP tool
-                  const result = await mcpClientManager.callTool(
-                    originalInfo.serverId,
-                    originalInfo.toolName,
-                    fnCall.args as Record<string, unknown>
-                  );
-                  
-                  // Process images in result and upload to Storage (with message_id for DB linking)
-                  const processedResult = await processResultImages(result, toolCallId, messageId);
-                  
-                  // Update tool call info with processed result (includes storage URLs)
-                  toolCallInfo.status = "success";
-                  toolCallInfo.result = processedResult;
-                  toolCallInfo.completedAt = Date.now();
-                  toolCalls.push(toolCallInfo);
-                  
-                  // Send tool call result event
-                  controller.enqueue(encoder.encode(`[TOOL_RESULT]${JSON.stringify(toolCallInfo)}[/TOOL_RESULT]`));
-
-                  // Add tool result to conversation and get final response
-                  const toolResultContent = [
-                    ...history,
-                    {
-                      role: "model",
-                      parts: [{ functionCall: fnCall }],
-                    },
-                    {
-                      role: "user",
-                      parts: [{
-                        functionResponse: {
-                          name: fnCall.name,
-                          response: result,
-                        },
-                      }],
-                    },
-                  ];
-
-                  const finalResponse = await ai.models.generateContent({
-                    model: "gemini-2.0-flash-001",
-                    contents: toolResultContent,
-                    config,
-                  });
-
-                  finalText = finalResponse.candidates?.[0]?.content?.parts?.[0]?.text || "";
-                } catch (error) {
-                  // Update tool call info with error
-                  toolCallInfo.status = "error";
-                  toolCallInfo.error = error instanceof Error ? error.message : "Unknown error";
-                  toolCallInfo.completedAt = Date.now();
-                  toolCalls.push(toolCallInfo);
-                  
-                  // Send tool call error event
-                  controller.enqueue(encoder.encode(`[TOOL_RESULT]${JSON.stringify(toolCallInfo)}[/TOOL_RESULT]`));
-                  
-                  console.error("Tool call error:", error);
-                  finalText += `\n\n[Tool Error: ${error instanceof Error ? error.message : "Unknown error"}]`;
-                }
+          }
+
+          const systemWithSummary = context.summary?.text
+            ? `${system}\n\nSummary of the earlier conversation (older messages are not included below):\n${context.summary.text}`
+            : system;
+
+          // Conversation grows with tool call / tool result turns as the agent loops
+          const conversation: LLMMessage[] = [...context.history];
+          let completed = false;
+
+          for (let iteration = 0; iteration < maxIterations && !signal.aborted; iteration++) {
+            let turnText = "";
+            const toolCalls: LLMToolCall[] = [];
+            pendingResults = [];
+
+            for await (const chunk of provider.streamChat({
+              model,
+              system: systemWithSummary,
+              messages: conversation,
+              tools,
+              signal,
+            })) {
+              switch (chunk.type) {
+                case "text":
+                  emitText(chunk.text, !turnText);
+                  turnText += chunk.text;
+                  break;
+
+                case "tool_call":
+                  // Start tool calls as soon as they are streamed; they run concurrently
+                  // (MCPClientManager limits per server)
+                  toolCalls.push(chunk.call);
+                  pendingResults.push(executeToolCall(chunk.call, messageId, send, signal));
+                  break;
+
+                case "usage":
+                  usage.promptTokens += chunk.usage.promptTokens;
+                  usage.completionTokens += chunk.usage.completionTokens;
+                  usage.totalTokens += chunk.usage.totalTokens;
+                  break;
               }
             }
+
+            console.log(`Iteration ${iteration + 1}: ${turnText.length} chars, ${toolCalls.length} tool calls`);
+
+            // Plain text answer: the agent is done
+            if (toolCalls.length === 0) {
+              completed = true;
+              break;
+            }
+
+            // Keep the model turn (with its tool calls) in the conversation
+            conversation.push({ role: "assistant", text: turnText, toolCalls });
+
+            // All tool results go back to the model in a single turn
+            const results = await Promise.all(pendingResults);
+            conversation.push({ role: "tool", results });
           }
 
-          // Send final text content
-          if (finalText) {
-            controller.enqueue(encoder.encode(`[TEXT]${finalText}[/TEXT]`));
+          if (signal.aborted) {
+            console.log("Chat request aborted by the client");
+          } else if (!completed) {
+            console.warn(`Agent loop stopped after ${maxIterations} iterations`);
+            emitText(`[Stopped after ${maxIterations} tool iterations without a final answer]`, true);
           }
-          
-          controller.close();
+
+          send({ type: "usage", usage });
         } catch (error) {
-          console.error("Stream error:", error);
-          controller.enqueue(encoder.encode(`[TEXT]Error generating response: ${error instanceof Error ? error.message : "Unknown error"}[/TEXT]`));
-          controller.close();
+          if (clientSignal.aborted) {
+            console.log("Chat request aborted by the client");
+          } else {
+            console.error("Stream error:", error);
+            send({ type: "error", message: error instanceof Error ? error.message : "Unknown error" });
+          }
+          // Stop tool calls the failed turn already started (approval waits included)
+          requestAbort.abort();
+        } finally {
+          await Promise.allSettled(pendingResults);
+          send({ type: "done" });
+          closed = true;
+          try {
+            controller.close();
+          } catch {
+            // Already closed because the client cancelled the stream
+          }
         }
       },
+      cancel() {
+        requestAbort.abort();
+      },
     });
 
     return new Response(stream, {
       headers: {
-        "Content-Type": "text/plain; charset=utf-8",
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        [CHAT_STREAM_VERSION_HEADER]: String(CHAT_STREAM_PROTOCOL_VERSION),
       },
     });
   } catch (error) {
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { mcpClientManager } from "@/lib/mcp/client-manager";
+import type { MCPApiResponse, UpdateServerConfigRequest } from "@/lib/mcp/types";
+
+export async function POST(req: NextRequest) {
+  try {
+    const { config }: UpdateServerConfigRequest = await req.json();
+
+    if (!config?.id) {
+      return NextResponse.json<MCPApiResponse>(
+        { success: false, error: "Server config is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!mcpClientManager.updateConfig(config)) {
+      return NextResponse.json<MCPApiResponse>(
+        { success: false, error: `Server ${config.id} is not connected` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<MCPApiResponse>({ success: true });
+  } catch (error) {
+    console.error("MCP config update error:", error);
+    return NextResponse.json<MCPApiResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to update server config",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest } from "next/server";
+import { mcpClientManager } from "@/lib/mcp/client-manager";
+import { encodeMCPEvent, subscribeMCPEvents } from "@/lib/mcp/events";
+import { getPendingSamplingRequests } from "@/lib/mcp/sampling";
+import type { MCPServerEvent } from "@/lib/mcp/types";
+
+// Comment line that keeps idle connections from being closed by proxies
+const KEEPALIVE_INTERVAL_MS = 25_000;
+
+/**
+ * Stream server status / capability changes and sampling requests as SSE
+ * Starts with a snapshot of every known server and pending request, then one event per change
+ */
+export async function GET(req: NextRequest) {
+  const encoder = new TextEncoder();
+  const signal = req.signal;
+
+  // Set once the stream starts; unsubscribes and stops the keepalive
+  let stop = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const enqueue = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // The stream closed under us (client gone)
+          stop();
+        }
+      };
+      const send = (event: MCPServerEvent) => enqueue(encodeMCPEvent(event));
+
+      send({
+        type: "snapshot",
+        servers: mcpClientManager.getAllStates(),
+        samplingRequests: getPendingSamplingRequests(),
+      });
+
+      const unsubscribe = subscribeMCPEvents(send);
+      const keepalive = setInterval(() => enqueue(": keepalive\n\n"), KEEPALIVE_INTERVAL_MS);
+
+      stop = () => {
+        unsubscribe();
+        clearInterval(keepalive);
+      };
+
+      // The tab closed or navigated away
+      signal.addEventListener(
+        "abort",
+        () => {
+          stop();
+          try {
+            controller.close();
+          } catch {
+            // Already closed
+          }
+        },
+        { once: true }
+      );
+    },
+    // The reader went away without the request aborting
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { LoggingLevelSchema } from "@modelcontextprotocol/sdk/types.js";
+import { serverLogs } from "@/lib/mcp/logs";
+import { setServerLogLevel } from "@/lib/mcp/server-settings";
+import type { MCPApiResponse, MCPLogEntry, SetLogLevelRequest } from "@/lib/mcp/types";
+
+// Buffered log messages of a server (?after=<id> returns only newer ones)
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const serverId = searchParams.get("serverId");
+
+    if (!serverId) {
+      return NextResponse.json<MCPApiResponse>(
+        { success: false, error: "Server ID is required" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json<MCPApiResponse<MCPLogEntry[]>>({
+      success: true,
+      data: serverLogs.get(serverId, Number(searchParams.get("after")) || 0),
+    });
+  } catch (error) {
+    console.error("MCP logs error:", error);
+    return NextResponse.json<MCPApiResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to get logs",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Change the level the server sends log messages at (logging/setLevel)
+export async function POST(req: NextRequest) {
+  try {
+    const { serverId, level }: SetLogLevelRequest = await req.json();
+
+    if (!serverId || !LoggingLevelSchema.safeParse(level).success) {
+      return NextResponse.json<MCPApiResponse>(
+        { success: false, error: "Server ID and a valid log level are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!(await setServerLogLevel(serverId, level))) {
+      return NextResponse.json<MCPApiResponse>(
+        { success: false, error: `Server ${serverId} is not connected` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<MCPApiResponse<SetLogLevelRequest>>({
+      success: true,
+      data: { serverId, level },
+    });
+  } catch (error) {
+    console.error("MCP log level error:", error);
+    return NextResponse.json<MCPApiResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to set log level",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Clear a server's buffered log messages
+export async function DELETE(req: NextRequest) {
+  const serverId = new URL(req.url).searchParams.get("serverId");
+
+  if (!serverId) {
+    return NextResponse.json<MCPApiResponse>(
+      { success: false, error: "Server ID is required" },
+      { status: 400 }
+    );
+  }
+
+  serverLogs.clear(serverId);
+  return NextResponse.json<MCPApiResponse>({ success: true });
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { mcpClientManager } from "@/lib/mcp/client-manager";
+import type { LoadMoreResourcesRequest, MCPApiResponse, MCPServerCapabilities } from "@/lib/mcp/types";
+
+/**
+ * Load the next page of a server's resources into its cached capabilities
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { serverId }: LoadMoreResourcesRequest = await req.json();
+
+    if (!serverId) {
+      return NextResponse.json<MCPApiResponse>(
+        { success: false, error: "Server ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const capabilities = await mcpClientManager.loadMoreResources(serverId, { signal: req.signal });
+
+    if (!capabilities) {
+      return NextResponse.json<MCPApiResponse>(
+        { success: false, error: "Server not connected or capabilities not available" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<MCPApiResponse<MCPServerCapabilities>>({
+      success: true,
+      data: capabilities,
+    });
+  } catch (error) {
+    console.error("MCP load more resources error:", error);
+    return NextResponse.json<MCPApiResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to load resources",
+      },
+      { status: 500 }
+    );
+  }
+}
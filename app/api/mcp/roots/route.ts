@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { setServerRoots } from "@/lib/mcp/server-settings";
+import type { MCPApiResponse, SetRootsRequest } from "@/lib/mcp/types";
+
+export async function POST(req: NextRequest) {
+  try {
+    const { serverId, roots }: SetRootsRequest = await req.json();
+
+    if (!serverId || !Array.isArray(roots) || roots.some((root) => typeof root?.uri !== "string" || !root.uri)) {
+      return NextResponse.json<MCPApiResponse>(
+        { success: false, error: "Server ID and a list of roots with URIs are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!(await setServerRoots(serverId, roots))) {
+      return NextResponse.json<MCPApiResponse>(
+        { success: false, error: `Server ${serverId} is not connected` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<MCPApiResponse<SetRootsRequest>>({
+      success: true,
+      data: { serverId, roots },
+    });
+  } catch (error) {
+    console.error("MCP roots error:", error);
+    return NextResponse.json<MCPApiResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to set roots",
+      },
+      { status: 500 }
+    );
+  }
+}
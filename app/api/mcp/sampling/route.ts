@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveSamplingRequest } from "@/lib/mcp/sampling";
+import type { MCPApiResponse, SamplingDecisionRequest } from "@/lib/mcp/types";
+
+export async function POST(req: NextRequest) {
+  try {
+    const { requestId, approved }: SamplingDecisionRequest = await req.json();
+
+    if (!requestId || typeof approved !== "boolean") {
+      return NextResponse.json<MCPApiResponse>(
+        { success: false, error: "Request ID and decision are required" },
+        { status: 400 }
+      );
+    }
+
+    // Already answered in another tab, cancelled by the server or timed out
+    if (!resolveSamplingRequest(requestId, approved)) {
+      return NextResponse.json<MCPApiResponse>(
+        { success: false, error: "Sampling request is not waiting for approval" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<MCPApiResponse>({ success: true });
+  } catch (error) {
+    console.error("Sampling decision error:", error);
+    return NextResponse.json<MCPApiResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to deliver decision",
+      },
+      { status: 500 }
+    );
+  }
+}
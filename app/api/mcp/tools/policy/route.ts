@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { setServerToolPolicy } from "@/lib/mcp/server-settings";
+import type { MCPApiResponse, SetToolPolicyRequest, ToolApprovalPolicy } from "@/lib/mcp/types";
+
+const POLICIES: ToolApprovalPolicy[] = ["allow", "ask", "deny"];
+
+export async function POST(req: NextRequest) {
+  try {
+    const { serverId, toolName, policy }: SetToolPolicyRequest = await req.json();
+
+    if (!serverId || !toolName || !POLICIES.includes(policy)) {
+      return NextResponse.json<MCPApiResponse>(
+        { success: false, error: "Server ID, tool name and a valid policy are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!setServerToolPolicy(serverId, toolName, policy)) {
+      return NextResponse.json<MCPApiResponse>(
+        { success: false, error: `Server ${serverId} is not connected` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<MCPApiResponse<SetToolPolicyRequest>>({
+      success: true,
+      data: { serverId, toolName, policy },
+    });
+  } catch (error) {
+    console.error("MCP tool policy error:", error);
+    return NextResponse.json<MCPApiResponse>(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to set tool policy",
+      },
+      { status: 500 }
+    );
+  }
+}
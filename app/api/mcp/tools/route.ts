@@ -21,7 +21,7 @@ export async function GET() {
           allTools.push({
             ...tool,
             serverId: status.serverId,
-            serverName: status.serverId, // Will be replaced with actual name if available
+            serverName: mcpClientManager.getConfig(status.serverId)?.name || status.serverId,
           });
         }
       }
@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { MCPProvider } from "@/lib/mcp/context";
+import { SamplingApprovalDialog } from "@/components/mcp/SamplingApprovalDialog";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -28,7 +29,11 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        <MCPProvider>{children}</MCPProvider>
+        <MCPProvider>
+          {children}
+          {/* Sampling requests from MCP servers can arrive on any page */}
+          <SamplingApprovalDialog />
+        </MCPProvider>
       </body>
     </html>
   );
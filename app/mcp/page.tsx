@@ -23,6 +23,7 @@ import {
   Loader2,
   Copy,
   Check,
+  Pencil,
 } from "lucide-react";
 import Link from "next/link";
 import { useMCP } from "@/lib/mcp/context";
@@ -32,9 +33,21 @@ import type {
   MCPTool,
   MCPPrompt,
   MCPResource,
+  MCPResourceTemplate,
   MCPExportData,
+  MCPRoot,
 } from "@/lib/mcp/types";
+import { getToolPolicy, isDestructiveTool } from "@/lib/mcp/policy";
 import { cn } from "@/lib/utils";
+import { ToolPolicySelect } from "@/components/mcp/ToolPolicySelect";
+import { ToolAnnotationBadges } from "@/components/mcp/ToolAnnotationBadges";
+import { RequestPolicyFields, type RequestPolicyValue } from "@/components/mcp/RequestPolicyFields";
+import { ResourceList } from "@/components/mcp/ResourceList";
+import { SamplingLimitFields, type SamplingLimitValue } from "@/components/mcp/SamplingLimitFields";
+import { UriTemplateFields } from "@/components/mcp/UriTemplateFields";
+import { RootsFields } from "@/components/mcp/RootsFields";
+import { ServerLogPanel } from "@/components/mcp/ServerLogPanel";
+import { ProcessStatus } from "@/components/mcp/ProcessStatus";
 
 // Server Form Component
 function ServerForm({
@@ -54,6 +67,16 @@ function ServerForm({
   const [args, setArgs] = useState(initialData?.stdioConfig?.args?.join(" ") ?? "");
   const [url, setUrl] = useState(initialData?.httpConfig?.url ?? "");
   const [enabled, setEnabled] = useState(initialData?.enabled ?? true);
+  const [requestPolicy, setRequestPolicy] = useState<RequestPolicyValue>({
+    requestTimeoutMs: initialData?.requestTimeoutMs,
+    toolTimeouts: initialData?.toolTimeouts,
+    maxRetries: initialData?.maxRetries,
+  });
+  const [samplingLimits, setSamplingLimits] = useState<SamplingLimitValue>({
+    samplingMaxTokens: initialData?.samplingMaxTokens,
+    samplingTokenBudget: initialData?.samplingTokenBudget,
+  });
+  const [roots, setRoots] = useState<MCPRoot[]>(initialData?.roots ?? []);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -62,15 +85,20 @@ function ServerForm({
       name,
       transportType,
       enabled,
+      ...requestPolicy,
+      ...samplingLimits,
+      roots: roots.map((root) => ({ ...root, uri: root.uri.trim() })).filter((root) => root.uri),
     };
 
+    // Keep settings the form doesn't edit (env, cwd, headers)
     if (transportType === "stdio") {
       config.stdioConfig = {
+        ...initialData?.stdioConfig,
         command,
         args: args.split(" ").filter(Boolean),
       };
     } else {
-      config.httpConfig = { url };
+      config.httpConfig = { ...initialData?.httpConfig, url };
     }
 
     onSubmit(config);
@@ -141,6 +169,10 @@ function ServerForm({
         </div>
       )}
 
+      <RequestPolicyFields value={requestPolicy} onChange={setRequestPolicy} />
+      <SamplingLimitFields value={samplingLimits} onChange={setSamplingLimits} />
+      <RootsFields value={roots} onChange={setRoots} />
+
       <div className="flex items-center gap-2">
         <input
           type="checkbox"
@@ -154,6 +186,12 @@ function ServerForm({
         </label>
       </div>
 
+      {initialData && (
+        <p className="text-xs text-gray-400">
+          타임아웃, 재시도, Sampling 토큰 한도와 Roots는 연결 중인 서버에 바로 적용됩니다. Command, URL 변경은 다시 연결한 후 적용됩니다.
+        </p>
+      )}
+
       <div className="flex gap-2 pt-2">
         <button
           type="submit"
@@ -219,7 +257,11 @@ function ToolTester({
       <div className="bg-gray-900 border border-gray-700 rounded-xl w-full max-w-2xl max-h-[80vh] overflow-hidden flex flex-col">
         <div className="p-4 border-b border-gray-700 flex items-center justify-between">
           <div>
-            <h3 className="font-semibold text-lg">{tool.name}</h3>
+            <h3 className="font-semibold text-lg">{tool.title ?? tool.name}</h3>
+            <div className="flex items-center gap-2 mt-1">
+              {tool.title && <span className="font-mono text-xs text-gray-400">{tool.name}</span>}
+              <ToolAnnotationBadges annotations={tool.annotations} />
+            </div>
             {tool.description && (
               <p className="text-sm text-gray-400 mt-1">{tool.description}</p>
             )}
@@ -414,7 +456,7 @@ function ResourceReader({
   serverId,
   onClose,
 }: {
-  resource: MCPResource;
+  resource: MCPResource | MCPResourceTemplate;
   serverId: string;
   onClose: () => void;
 }) {
@@ -422,14 +464,21 @@ function ResourceReader({
   const [result, setResult] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  // Templates are read at the URI expanded from the entered variables
+  const [templateUri, setTemplateUri] = useState<string | null>(null);
+
+  const uriTemplate = "uriTemplate" in resource ? resource.uriTemplate : null;
+  const uri = "uri" in resource ? resource.uri : templateUri;
 
   const handleRead = async () => {
+    if (!uri) return;
+
     setIsLoading(true);
     setError(null);
     setResult(null);
 
     try {
-      const response = await readResource(serverId, resource.uri);
+      const response = await readResource(serverId, uri);
       setResult(JSON.stringify(response, null, 2));
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to read resource");
@@ -444,7 +493,7 @@ function ResourceReader({
         <div className="p-4 border-b border-gray-700 flex items-center justify-between">
           <div>
             <h3 className="font-semibold text-lg">{resource.name}</h3>
-            <p className="text-xs text-gray-400 font-mono mt-1">{resource.uri}</p>
+            <p className="text-xs text-gray-400 font-mono mt-1">{uriTemplate ?? uri}</p>
             {resource.description && (
               <p className="text-sm text-gray-400 mt-1">{resource.description}</p>
             )}
@@ -458,6 +507,8 @@ function ResourceReader({
         </div>
 
         <div className="p-4 space-y-4 flex-1 overflow-auto">
+          {uriTemplate && <UriTemplateFields uriTemplate={uriTemplate} onChange={setTemplateUri} />}
+
           {error && (
             <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm">
               {error}
@@ -477,7 +528,7 @@ function ResourceReader({
         <div className="p-4 border-t border-gray-700">
           <button
             onClick={handleRead}
-            disabled={isLoading}
+            disabled={isLoading || !uri}
             className="w-full px-4 py-2 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
           >
             {isLoading ? (
@@ -500,12 +551,14 @@ function ResourceReader({
 
 // Server Card Component
 function ServerCard({ server }: { server: MCPServerConfig }) {
-  const { statuses, capabilities, connect, disconnect, deleteServer, refreshCapabilities } = useMCP();
+  const { statuses, capabilities, connect, disconnect, updateServer, deleteServer, refreshCapabilities, setToolPolicy } =
+    useMCP();
   const [isExpanded, setIsExpanded] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
   const [selectedTool, setSelectedTool] = useState<MCPTool | null>(null);
   const [selectedPrompt, setSelectedPrompt] = useState<MCPPrompt | null>(null);
-  const [selectedResource, setSelectedResource] = useState<MCPResource | null>(null);
+  const [selectedResource, setSelectedResource] = useState<MCPResource | MCPResourceTemplate | null>(null);
 
   const status = statuses.get(server.id);
   const serverCapabilities = capabilities.get(server.id);
@@ -531,10 +584,17 @@ function ServerCard({ server }: { server: MCPServerConfig }) {
     await refreshCapabilities(server.id);
   };
 
+  // Timeouts, retries, sampling limits and roots apply right away; command / URL changes on the next connect
+  const handleUpdate = (data: Omit<MCPServerConfig, "id" | "createdAt" | "updatedAt">) => {
+    updateServer(server.id, data);
+    setIsEditing(false);
+  };
+
   const statusColor = {
     disconnected: "text-gray-400",
     connecting: "text-yellow-400",
     connected: "text-emerald-400",
+    reconnecting: "text-amber-400",
     error: "text-red-400",
   };
 
@@ -542,6 +602,7 @@ function ServerCard({ server }: { server: MCPServerConfig }) {
     disconnected: PowerOff,
     connecting: Loader2,
     connected: CheckCircle,
+    reconnecting: RefreshCw,
     error: AlertCircle,
   };
 
@@ -568,15 +629,21 @@ function ServerCard({ server }: { server: MCPServerConfig }) {
                     {server.transportType}
                   </span>
                   <span className={cn("text-xs flex items-center gap-1", statusColor[status?.status ?? "disconnected"])}>
-                    <CurrentStatusIcon size={12} className={status?.status === "connecting" ? "animate-spin" : ""} />
+                    <CurrentStatusIcon
+                      size={12}
+                      className={status?.status === "connecting" || status?.status === "reconnecting" ? "animate-spin" : ""}
+                    />
                     {status?.status ?? "disconnected"}
+                    {status?.status === "reconnecting" && status.reconnectAttempt && (
+                      <span className="text-gray-400">(시도 {status.reconnectAttempt}회)</span>
+                    )}
                   </span>
                 </div>
               </div>
             </div>
 
             <div className="flex items-center gap-1">
-              {isConnected ? (
+              {isConnected || status?.status === "reconnecting" ? (
                 <button
                   onClick={handleDisconnect}
                   className="p-2 hover:bg-gray-700 rounded-lg transition-colors text-red-400"
@@ -594,6 +661,13 @@ function ServerCard({ server }: { server: MCPServerConfig }) {
                   {isConnecting ? <Loader2 size={18} className="animate-spin" /> : <Power size={18} />}
                 </button>
               )}
+              <button
+                onClick={() => setIsEditing(!isEditing)}
+                className="p-2 hover:bg-gray-700 rounded-lg transition-colors text-gray-400"
+                title="수정"
+              >
+                <Pencil size={18} />
+              </button>
               <button
                 onClick={handleDelete}
                 className="p-2 hover:bg-gray-700 rounded-lg transition-colors text-gray-400 hover:text-red-400"
@@ -616,6 +690,8 @@ function ServerCard({ server }: { server: MCPServerConfig }) {
             </div>
           )}
 
+          {status?.process && <ProcessStatus process={status.process} />}
+
           {/* Config Preview */}
           <div className="mt-3 text-xs text-gray-400 font-mono">
             {server.transportType === "stdio" && server.stdioConfig && (
@@ -628,6 +704,13 @@ function ServerCard({ server }: { server: MCPServerConfig }) {
           </div>
         </div>
 
+        {/* Edit */}
+        {isEditing && (
+          <div className="border-t border-gray-700 p-4">
+            <ServerForm initialData={server} onSubmit={handleUpdate} onCancel={() => setIsEditing(false)} />
+          </div>
+        )}
+
         {/* Expanded Capabilities */}
         {isExpanded && isConnected && serverCapabilities && (
           <div className="border-t border-gray-700 p-4 space-y-4">
@@ -651,16 +734,26 @@ function ServerCard({ server }: { server: MCPServerConfig }) {
                 </div>
                 <div className="space-y-1">
                   {serverCapabilities.tools.map((tool) => (
-                    <button
+                    <div
                       key={tool.name}
-                      onClick={() => setSelectedTool(tool)}
-                      className="w-full text-left p-2 bg-gray-700/50 hover:bg-gray-700 rounded-lg transition-colors"
+                      className="flex items-center gap-2 p-2 bg-gray-700/50 hover:bg-gray-700 rounded-lg transition-colors"
                     >
-                      <div className="font-mono text-sm text-emerald-400">{tool.name}</div>
-                      {tool.description && (
-                        <div className="text-xs text-gray-400 mt-0.5 truncate">{tool.description}</div>
-                      )}
-                    </button>
+                      <button onClick={() => setSelectedTool(tool)} className="flex-1 min-w-0 text-left">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <span className="font-mono text-sm text-emerald-400">{tool.name}</span>
+                          {tool.title && <span className="text-xs text-gray-300">{tool.title}</span>}
+                          <ToolAnnotationBadges annotations={tool.annotations} />
+                        </div>
+                        {tool.description && (
+                          <div className="text-xs text-gray-400 mt-0.5 truncate">{tool.description}</div>
+                        )}
+                      </button>
+                      <ToolPolicySelect
+                        policy={getToolPolicy(server, tool)}
+                        onChange={(policy) => setToolPolicy(server.id, tool.name, policy)}
+                        destructive={isDestructiveTool(tool)}
+                      />
+                    </div>
                   ))}
                 </div>
               </div>
@@ -691,30 +784,18 @@ function ServerCard({ server }: { server: MCPServerConfig }) {
             )}
 
             {/* Resources */}
-            {serverCapabilities.resources.length > 0 && (
-              <div>
-                <div className="flex items-center gap-2 text-sm text-gray-400 mb-2">
-                  <FileText size={14} />
-                  <span>Resources ({serverCapabilities.resources.length})</span>
-                </div>
-                <div className="space-y-1">
-                  {serverCapabilities.resources.map((resource) => (
-                    <button
-                      key={resource.uri}
-                      onClick={() => setSelectedResource(resource)}
-                      className="w-full text-left p-2 bg-gray-700/50 hover:bg-gray-700 rounded-lg transition-colors"
-                    >
-                      <div className="font-mono text-sm text-amber-400">{resource.name}</div>
-                      <div className="text-xs text-gray-500 font-mono truncate">{resource.uri}</div>
-                    </button>
-                  ))}
-                </div>
-              </div>
+            {(serverCapabilities.resources.length > 0 || serverCapabilities.resourceTemplates.length > 0) && (
+              <ResourceList
+                serverId={server.id}
+                capabilities={serverCapabilities}
+                onSelect={setSelectedResource}
+              />
             )}
 
             {serverCapabilities.tools.length === 0 &&
               serverCapabilities.prompts.length === 0 &&
-              serverCapabilities.resources.length === 0 && (
+              serverCapabilities.resources.length === 0 &&
+              serverCapabilities.resourceTemplates.length === 0 && (
                 <div className="text-center text-gray-400 text-sm py-4">
                   이 서버는 capabilities를 제공하지 않습니다.
                 </div>
@@ -727,6 +808,13 @@ function ServerCard({ server }: { server: MCPServerConfig }) {
             서버에 연결하면 capabilities를 확인할 수 있습니다.
           </div>
         )}
+
+        {/* Server Logs (kept after disconnecting) */}
+        {isExpanded && (
+          <div className="border-t border-gray-700 p-4">
+            <ServerLogPanel server={server} />
+          </div>
+        )}
       </div>
 
       {/* Modals */}
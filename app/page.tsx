@@ -1,7 +1,7 @@
 "use client";
 
-import { useState, useEffect, useRef, useCallback } from "react";
-import { Send, Trash2, Bot, User, Copy, Check, Plus, MessageSquare, Menu, X, Settings, Wrench, ToggleLeft, ToggleRight } from "lucide-react";
+import { Fragment, useState, useEffect, useRef, useCallback } from "react";
+import { Send, Square, Trash2, Bot, User, Copy, Check, Plus, MessageSquare, Menu, X, Settings, Wrench, ToggleLeft, ToggleRight } from "lucide-react";
 import Link from "next/link";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
@@ -18,16 +18,31 @@ import {
   saveMessages,
   updateMessageById,
   encodeExtendedMessage,
+  getSessionSummary,
   type ChatSession,
+  type SessionSummary,
   type Message,
 } from "@/lib/supabase";
 import { useMCP } from "@/lib/mcp/context";
 import type { ToolCallInfo } from "@/lib/mcp/types";
 import { ToolCallsDisplay } from "@/components/chat/ToolCallCard";
+import type { ToolApprovalChoice } from "@/components/chat/ToolApprovalPanel";
+import type { ElicitationAnswer } from "@/components/chat/ElicitationForm";
+import { ContextSummaryDivider } from "@/components/chat/ContextSummaryDivider";
+import {
+  applyChatEvent,
+  createChatEventParser,
+  createChatStreamState,
+  CHAT_STREAM_PROTOCOL_VERSION,
+  CHAT_STREAM_VERSION_HEADER,
+  stopChatStreamState,
+  type ChatStreamState,
+} from "@/lib/chat/events";
 
 // Extended message type with tool calls
 interface ExtendedMessage extends Message {
   toolCalls?: ToolCallInfo[];
+  stopped?: boolean;
 }
 
 // CodeBlock Component
@@ -84,12 +99,14 @@ export default function Home() {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isInitialized, setIsInitialized] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [mounted, setMounted] = useState(false);
   const [mcpEnabled, setMcpEnabled] = useState(true);
   const [currentToolCalls, setCurrentToolCalls] = useState<ToolCallInfo[]>([]);
+  const [contextSummary, setContextSummary] = useState<SessionSummary | null>(null);
   
   // MCP context for connection status
-  const { statuses, capabilities } = useMCP();
+  const { statuses, capabilities, setToolPolicy } = useMCP();
   
   // Count connected servers with tools
   const connectedServersWithTools = Array.from(statuses.entries()).filter(([serverId, status]) => {
@@ -171,11 +188,13 @@ export default function Home() {
 
   // Load session messages from DB (with tool calls)
   const loadSessionMessages = useCallback(async (sessionId: string) => {
-    const msgs = await getMessagesExtended(sessionId);
+    const [msgs, summary] = await Promise.all([getMessagesExtended(sessionId), getSessionSummary(sessionId)]);
+    setContextSummary(summary);
     setMessages(msgs.map(m => ({
       role: m.role,
       content: m.content,
       toolCalls: m.toolCalls as ToolCallInfo[] | undefined,
+      stopped: m.stopped,
     })));
   }, []);
 
@@ -201,6 +220,7 @@ export default function Home() {
       } else {
         setCurrentSessionId(null);
         setMessages([]);
+        setContextSummary(null);
       }
       
       setIsInitialized(true);
@@ -209,6 +229,11 @@ export default function Home() {
     initializeData();
   }, [migrateLocalStorageToDb, loadSessionMessages]);
 
+  // Stop a running generation when leaving the page
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
   // Auto-scroll on new messages
   useEffect(() => {
     scrollToBottom();
@@ -245,6 +270,7 @@ export default function Home() {
   const handleNewChat = () => {
     setCurrentSessionId(null);
     setMessages([]);
+    setContextSummary(null);
     setInput("");
     if (window.innerWidth < 768) {
       setIsSidebarOpen(false);
@@ -269,76 +295,61 @@ export default function Home() {
     }
   };
 
-  // Parse SSE stream with tool call markers
-  const parseStreamContent = (buffer: string) => {
-    const toolCalls: ToolCallInfo[] = [];
-    
-    // Helper function to extract content between markers
-    const extractBetweenMarkers = (str: string, startMarker: string, endMarker: string): string[] => {
-      const results: string[] = [];
-      let searchStart = 0;
-      
-      while (true) {
-        const startIdx = str.indexOf(startMarker, searchStart);
-        if (startIdx === -1) break;
-        
-        const contentStart = startIdx + startMarker.length;
-        const endIdx = str.indexOf(endMarker, contentStart);
-        if (endIdx === -1) break;
-        
-        results.push(str.substring(contentStart, endIdx));
-        searchStart = endIdx + endMarker.length;
-      }
-      
-      return results;
-    };
-    
-    // Parse tool call starts
-    const toolCallContents = extractBetweenMarkers(buffer, "[TOOL_CALL]", "[/TOOL_CALL]");
-    for (const content of toolCallContents) {
-      try {
-        const parsed = JSON.parse(content);
-        toolCalls.push(parsed);
-      } catch (e) {
-        console.error("Failed to parse tool call:", e, content);
-      }
+  // Answer a tool call waiting for approval in the running chat request
+  const handleToolApproval = async (toolCall: ToolCallInfo, choice: ToolApprovalChoice) => {
+    if (choice.policy) {
+      await setToolPolicy(toolCall.serverId, toolCall.toolName, choice.policy);
     }
-    
-    // Parse tool call results (updates) - these have the final result
-    const toolResultContents = extractBetweenMarkers(buffer, "[TOOL_RESULT]", "[/TOOL_RESULT]");
-    for (const content of toolResultContents) {
-      try {
-        const result: ToolCallInfo = JSON.parse(content);
-        const existingIndex = toolCalls.findIndex(tc => tc.id === result.id);
-        if (existingIndex >= 0) {
-          toolCalls[existingIndex] = result;
-        } else {
-          toolCalls.push(result);
-        }
-      } catch (e) {
-        console.error("Failed to parse tool result:", e, content);
+
+    try {
+      const response = await fetch("/api/chat/approvals", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          toolCallId: toolCall.id,
+          approved: choice.approved,
+          arguments: choice.arguments,
+        }),
+      });
+      const result = await response.json();
+      if (!result.success) {
+        console.error("Tool approval was not delivered:", result.error);
       }
+    } catch (error) {
+      console.error("Error sending tool approval:", error);
     }
-    
-    // Extract text content
-    let text = "";
-    const textContents = extractBetweenMarkers(buffer, "[TEXT]", "[/TEXT]");
-    if (textContents.length > 0) {
-      text = textContents[textContents.length - 1]; // Get the last text content
-    } else {
-      // If no markers at all, treat the whole buffer as text (for non-tool responses)
-      const hasAnyMarkers = buffer.includes("[TOOL_CALL]") || buffer.includes("[TEXT]");
-      if (!hasAnyMarkers) {
-        text = buffer;
+  };
+
+  // Answer a server's request for more input during a tool call
+  const handleElicitationAnswer = async (toolCall: ToolCallInfo, answer: ElicitationAnswer) => {
+    if (!toolCall.elicitation) return;
+
+    try {
+      const response = await fetch("/api/chat/elicitations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          requestId: toolCall.elicitation.id,
+          action: answer.action,
+          content: answer.content,
+        }),
+      });
+      const result = await response.json();
+      if (!result.success) {
+        console.error("Elicitation answer was not delivered:", result.error);
+        // The answer doesn't match the requested schema; the form stays open
+        if (response.status === 400) {
+          alert(`입력값을 확인하세요: ${result.error}`);
+        }
       }
+    } catch (error) {
+      console.error("Error sending elicitation answer:", error);
     }
-    
-    // Debug log
-    if (toolCalls.length > 0) {
-      console.log("Parsed tool calls:", toolCalls);
-    }
-    
-    return { toolCalls, text };
+  };
+
+  // Stop the running generation (the server cancels the model stream and MCP tool calls)
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -372,20 +383,31 @@ export default function Home() {
       throw new Error("Failed to create assistant message");
     }
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let streamState = createChatStreamState();
+
     try {
       const response = await fetch(`/api/chat`, {
         method: "POST",
+        signal: abortController.signal,
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ 
-          messages: newMessages.map(m => ({ role: m.role, content: m.content })),
+          messages: newMessages.map(m => ({ role: m.role, content: m.content, toolCalls: m.toolCalls })),
           mcpEnabled,
           messageId: assistantMessageId, // Pass message ID for image linking
+          sessionId: activeSessionId, // Lets the server load and update the context summary
         }),
       });
 
       if (!response.ok) throw new Error("Network response was not ok");
       if (!response.body) throw new Error("No response body");
 
+      const protocolVersion = response.headers.get(CHAT_STREAM_VERSION_HEADER);
+      if (protocolVersion !== String(CHAT_STREAM_PROTOCOL_VERSION)) {
+        console.warn(`Unexpected chat protocol version: ${protocolVersion}`);
+      }
+
       const reader = response.body.getReader();
       const decoder = new TextDecoder();
       
@@ -393,45 +415,43 @@ export default function Home() {
       const assistantMessage: ExtendedMessage = { role: "assistant", content: "", toolCalls: [] };
       setMessages((prev) => [...prev, assistantMessage]);
 
-      let fullBuffer = "";
+      const parser = createChatEventParser((event) => {
+        streamState = applyChatEvent(streamState, event);
+      });
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        const chunk = decoder.decode(value, { stream: true });
-        fullBuffer += chunk;
-        
-        // Parse the buffer for tool calls and text
-        const { toolCalls, text } = parseStreamContent(fullBuffer);
-        
+      // Render the latest stream state into the streaming assistant message
+      const renderStreamState = ({ toolCalls, text, contextSummary: summary }: ChatStreamState) => {
         // Update current tool calls for live display (shown in loading indicator)
-        setCurrentToolCalls([...toolCalls]);
-        
+        setCurrentToolCalls(toolCalls);
+        if (summary) {
+          setContextSummary(summary);
+        }
+
         // Update messages with parsed content (immutable update)
         setMessages((prev) => {
           const updated = prev.slice(0, -1);
           const lastMsg = prev[prev.length - 1];
           if (lastMsg && lastMsg.role === "assistant") {
-            return [...updated, { ...lastMsg, toolCalls: [...toolCalls], content: text }];
+            return [...updated, { ...lastMsg, toolCalls, content: text }];
           }
           return prev;
         });
+      };
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parser.push(decoder.decode(value, { stream: true }));
+        renderStreamState(streamState);
       }
 
       // Final parse
-      const { toolCalls: finalToolCalls, text: finalText } = parseStreamContent(fullBuffer);
-      
-      console.log("Final parsed:", { toolCalls: finalToolCalls, text: finalText });
-      
-      // Update final message state with tool calls preserved (immutable update)
-      setMessages((prev) => {
-        const updated = prev.slice(0, -1);
-        const lastMsg = prev[prev.length - 1];
-        if (lastMsg && lastMsg.role === "assistant") {
-          return [...updated, { ...lastMsg, toolCalls: [...finalToolCalls], content: finalText }];
-        }
-        return prev;
-      });
+      parser.push(decoder.decode());
+      parser.flush();
+      renderStreamState(streamState);
+
+      const { toolCalls: finalToolCalls, text: finalText } = streamState;
+      console.log("Final parsed:", { toolCalls: finalToolCalls, text: finalText, usage: streamState.usage });
       
       // Update the assistant message in DB with full content (including tool calls)
       const encodedContent = encodeExtendedMessage(finalText, finalToolCalls);
@@ -441,6 +461,19 @@ export default function Home() {
       setCurrentToolCalls([]);
 
     } catch (error) {
+      if (abortController.signal.aborted) {
+        // Keep what was generated so far, marked as stopped
+        const { text, toolCalls } = stopChatStreamState(streamState);
+        const stoppedMessage: ExtendedMessage = { role: "assistant", content: text, toolCalls, stopped: true };
+        setMessages((prev) =>
+          prev[prev.length - 1]?.role === "assistant"
+            ? [...prev.slice(0, -1), stoppedMessage]
+            : [...prev, stoppedMessage]
+        );
+        await updateMessageById(assistantMessageId, encodeExtendedMessage(text, toolCalls, true));
+        return;
+      }
+
       console.error("Error:", error);
       const errorMessage: ExtendedMessage = { 
         role: "assistant", 
@@ -449,6 +482,7 @@ export default function Home() {
       setMessages((prev) => [...prev, errorMessage]);
       await saveMessage(activeSessionId, { role: "assistant", content: errorMessage.content });
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
       setCurrentToolCalls([]);
     }
@@ -598,65 +632,86 @@ export default function Home() {
                 )}
                 
                 {messages.map((msg, index) => (
-                    <div 
-                        key={index} 
-                        className={`flex gap-4 ${msg.role === "user" ? "justify-end" : "justify-start"}`}
-                    >
-                        {msg.role === "assistant" && (
-                            <div className="w-8 h-8 rounded-full bg-blue-600 flex-shrink-0 flex items-center justify-center text-white mt-1">
-                                <Bot size={16} />
-                            </div>
+                    <Fragment key={index}>
+                        {/* Earlier messages were folded into the summary sent to the model */}
+                        {contextSummary && index === contextSummary.messageCount && (
+                            <ContextSummaryDivider summary={contextSummary} />
                         )}
-                        
                         <div 
-                            className={`max-w-[85%] sm:max-w-[75%] px-4 py-3 rounded-2xl leading-relaxed shadow-sm ${
-                                msg.role === "user" 
-                                    ? "bg-blue-600 text-white rounded-br-sm" 
-                                    : "bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-bl-sm w-full overflow-hidden"
-                            }`}
+                            className={`flex gap-4 ${msg.role === "user" ? "justify-end" : "justify-start"}`}
                         >
-                            {msg.role === "user" ? (
-                                <div className="whitespace-pre-wrap">{msg.content}</div>
-                            ) : (
-                                <div className="markdown-body">
-                                    {/* Tool Calls Display */}
-                                    {msg.toolCalls && msg.toolCalls.length > 0 && (
-                                        <ToolCallsDisplay toolCalls={msg.toolCalls} />
-                                    )}
+                            {msg.role === "assistant" && (
+                                <div className="w-8 h-8 rounded-full bg-blue-600 flex-shrink-0 flex items-center justify-center text-white mt-1">
+                                    <Bot size={16} />
+                                </div>
+                            )}
+                        
+                            <div 
+                                className={`max-w-[85%] sm:max-w-[75%] px-4 py-3 rounded-2xl leading-relaxed shadow-sm ${
+                                    msg.role === "user" 
+                                        ? "bg-blue-600 text-white rounded-br-sm" 
+                                        : "bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-bl-sm w-full overflow-hidden"
+                                }`}
+                            >
+                                {msg.role === "user" ? (
+                                    <div className="whitespace-pre-wrap">{msg.content}</div>
+                                ) : (
+                                    <div className="markdown-body">
+                                        {/* Tool Calls Display */}
+                                        {msg.toolCalls && msg.toolCalls.length > 0 && (
+                                            <ToolCallsDisplay
+                                                toolCalls={msg.toolCalls}
+                                                onApprovalDecision={
+                                                    isLoading && index === messages.length - 1 ? handleToolApproval : undefined
+                                                }
+                                                onElicitationAnswer={
+                                                    isLoading && index === messages.length - 1 ? handleElicitationAnswer : undefined
+                                                }
+                                            />
+                                        )}
                                     
-                                    {/* Text Content */}
-                                    {msg.content && (
-                                        <ReactMarkdown
-                                            remarkPlugins={[remarkGfm]}
-                                            components={{
-                                                code: CodeBlock,
-                                                ul: ({children}) => <ul className="list-disc pl-4 mb-2 space-y-1">{children}</ul>,
-                                                ol: ({children}) => <ol className="list-decimal pl-4 mb-2 space-y-1">{children}</ol>,
-                                                li: ({children}) => <li className="mb-1">{children}</li>,
-                                                p: ({children}) => <p className="mb-2 last:mb-0">{children}</p>,
-                                                h1: ({children}) => <h1 className="text-2xl font-bold mb-2 mt-4">{children}</h1>,
-                                                h2: ({children}) => <h2 className="text-xl font-bold mb-2 mt-3">{children}</h2>,
-                                                h3: ({children}) => <h3 className="text-lg font-bold mb-1 mt-2">{children}</h3>,
-                                                blockquote: ({children}) => <blockquote className="border-l-4 border-gray-300 pl-4 italic my-2">{children}</blockquote>,
-                                                a: ({href, children}) => <a href={href} className="text-blue-500 hover:underline" target="_blank" rel="noopener noreferrer">{children}</a>,
-                                                table: ({children}) => <div className="overflow-x-auto mb-2"><table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700">{children}</table></div>,
-                                                th: ({children}) => <th className="px-3 py-2 bg-gray-100 dark:bg-gray-800 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b">{children}</th>,
-                                                td: ({children}) => <td className="px-3 py-2 whitespace-nowrap text-sm border-b dark:border-gray-700">{children}</td>,
-                                            }}
-                                        >
-                                            {msg.content}
-                                        </ReactMarkdown>
-                                    )}
+                                        {/* Text Content */}
+                                        {msg.content && (
+                                            <ReactMarkdown
+                                                remarkPlugins={[remarkGfm]}
+                                                components={{
+                                                    code: CodeBlock,
+                                                    ul: ({children}) => <ul className="list-disc pl-4 mb-2 space-y-1">{children}</ul>,
+                                                    ol: ({children}) => <ol className="list-decimal pl-4 mb-2 space-y-1">{children}</ol>,
+                                                    li: ({children}) => <li className="mb-1">{children}</li>,
+                                                    p: ({children}) => <p className="mb-2 last:mb-0">{children}</p>,
+                                                    h1: ({children}) => <h1 className="text-2xl font-bold mb-2 mt-4">{children}</h1>,
+                                                    h2: ({children}) => <h2 className="text-xl font-bold mb-2 mt-3">{children}</h2>,
+                                                    h3: ({children}) => <h3 className="text-lg font-bold mb-1 mt-2">{children}</h3>,
+                                                    blockquote: ({children}) => <blockquote className="border-l-4 border-gray-300 pl-4 italic my-2">{children}</blockquote>,
+                                                    a: ({href, children}) => <a href={href} className="text-blue-500 hover:underline" target="_blank" rel="noopener noreferrer">{children}</a>,
+                                                    table: ({children}) => <div className="overflow-x-auto mb-2"><table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700">{children}</table></div>,
+                                                    th: ({children}) => <th className="px-3 py-2 bg-gray-100 dark:bg-gray-800 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b">{children}</th>,
+                                                    td: ({children}) => <td className="px-3 py-2 whitespace-nowrap text-sm border-b dark:border-gray-700">{children}</td>,
+                                                }}
+                                            >
+                                                {msg.content}
+                                            </ReactMarkdown>
+                                        )}
+
+                                        {/* Stopped marker */}
+                                        {msg.stopped && (
+                                            <div className="flex items-center gap-1.5 mt-2 text-xs text-gray-400 dark:text-gray-500">
+                                                <Square size={10} fill="currentColor" />
+                                                <span>사용자가 생성을 중지했습니다</span>
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+
+                            {msg.role === "user" && (
+                                <div className="w-8 h-8 rounded-full bg-gray-200 dark:bg-gray-700 flex-shrink-0 flex items-center justify-center mt-1">
+                                    <User size={16} />
                                 </div>
                             )}
                         </div>
-
-                        {msg.role === "user" && (
-                            <div className="w-8 h-8 rounded-full bg-gray-200 dark:bg-gray-700 flex-shrink-0 flex items-center justify-center mt-1">
-                                <User size={16} />
-                            </div>
-                        )}
-                    </div>
+                    </Fragment>
                 ))}
                 {isLoading && messages[messages.length-1]?.role !== "assistant" && (
                      <div className="flex gap-4 justify-start">
@@ -666,7 +721,11 @@ export default function Home() {
                         <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 px-4 py-3 rounded-2xl rounded-bl-sm shadow-sm max-w-[85%] sm:max-w-[75%]">
                             {/* Show current tool calls while loading */}
                             {currentToolCalls.length > 0 && (
-                                <ToolCallsDisplay toolCalls={currentToolCalls} />
+                                <ToolCallsDisplay
+                                    toolCalls={currentToolCalls}
+                                    onApprovalDecision={handleToolApproval}
+                                    onElicitationAnswer={handleElicitationAnswer}
+                                />
                             )}
                             {currentToolCalls.length === 0 && (
                                 <div className="flex gap-1 h-6 items-center">
@@ -694,13 +753,24 @@ export default function Home() {
                         className="w-full p-4 pr-12 rounded-full bg-gray-100 dark:bg-gray-900 border border-transparent focus:border-blue-500 focus:bg-white dark:focus:bg-black focus:ring-0 transition-all outline-none"
                         disabled={isLoading}
                     />
-                    <button 
-                        type="submit" 
-                        disabled={!input.trim() || isLoading}
-                        className="absolute right-2 p-2 bg-blue-600 text-white rounded-full hover:bg-blue-700 disabled:opacity-50 disabled:hover:bg-blue-600 transition-colors"
-                    >
-                        <Send size={20} />
-                    </button>
+                    {isLoading ? (
+                        <button
+                            type="button"
+                            onClick={handleStop}
+                            className="absolute right-2 p-2 bg-gray-700 text-white rounded-full hover:bg-gray-800 dark:bg-gray-600 dark:hover:bg-gray-500 transition-colors"
+                            title="생성 중지"
+                        >
+                            <Square size={20} fill="currentColor" />
+                        </button>
+                    ) : (
+                        <button 
+                            type="submit" 
+                            disabled={!input.trim()}
+                            className="absolute right-2 p-2 bg-blue-600 text-white rounded-full hover:bg-blue-700 disabled:opacity-50 disabled:hover:bg-blue-600 transition-colors"
+                        >
+                            <Send size={20} />
+                        </button>
+                    )}
                 </form>
                  <div className="text-xs text-center text-gray-400 mt-2">
                     Gemini can make mistakes. Consider checking important information.
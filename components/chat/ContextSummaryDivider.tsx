@@ -0,0 +1,38 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, ChevronRight, History } from "lucide-react";
+import type { SessionSummary } from "@/lib/supabase";
+
+interface ContextSummaryDividerProps {
+  summary: SessionSummary;
+}
+
+// 이전 대화가 요약되었음을 표시하는 구분선 (요약 내용은 펼쳐서 확인)
+export function ContextSummaryDivider({ summary }: ContextSummaryDividerProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className="my-2">
+      <div className="flex items-center gap-3 text-xs text-gray-400 dark:text-gray-500">
+        <div className="flex-1 border-t border-dashed border-gray-300 dark:border-gray-700" />
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex items-center gap-1.5 px-2 py-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          title="모델에는 위 메시지 대신 요약이 전달됩니다"
+        >
+          <History size={12} />
+          <span>이전 메시지 {summary.messageCount}개가 요약되었습니다</span>
+          {summary.text && (isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />)}
+        </button>
+        <div className="flex-1 border-t border-dashed border-gray-300 dark:border-gray-700" />
+      </div>
+
+      {isExpanded && summary.text && (
+        <div className="mt-2 px-4 py-3 rounded-lg bg-gray-100 dark:bg-gray-800 text-xs text-gray-600 dark:text-gray-300 whitespace-pre-wrap">
+          {summary.text}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+"use client";
+
+import { useState } from "react";
+import { Ban, MessageSquareText, Send, X } from "lucide-react";
+import type {
+  ElicitationAction,
+  ElicitationContent,
+  ElicitationFieldSchema,
+  ElicitationRequestInfo,
+} from "@/lib/mcp/types";
+
+// User's answer to an elicitation request
+export interface ElicitationAnswer {
+  action: ElicitationAction;
+  content?: ElicitationContent; // Only with "accept"
+}
+
+interface ElicitationFormProps {
+  request: ElicitationRequestInfo;
+  onAnswer: (answer: ElicitationAnswer) => Promise<void> | void;
+}
+
+// Field values while editing (numbers stay text until submit)
+type FieldValue = string | boolean | string[];
+
+const inputClass =
+  "w-full px-3 py-1.5 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-sm text-gray-800 dark:text-gray-200";
+
+const INPUT_TYPES: Record<string, string> = {
+  email: "email",
+  uri: "url",
+  date: "date",
+  "date-time": "datetime-local",
+};
+
+// Selectable values with labels (enum + enumNames, or titled oneOf / anyOf)
+function getOptions(field: ElicitationFieldSchema): Array<{ value: string; label: string }> | null {
+  if (field.type === "array") {
+    if (field.items?.anyOf) return field.items.anyOf.map((o) => ({ value: o.const, label: o.title }));
+    return field.items?.enum?.map((value) => ({ value, label: value })) ?? [];
+  }
+  if (field.oneOf) return field.oneOf.map((o) => ({ value: o.const, label: o.title }));
+  if (field.enum) return field.enum.map((value, i) => ({ value, label: field.enumNames?.[i] ?? value }));
+  return null;
+}
+
+// datetime-local edits local time without seconds or offset ("2026-10-19T12:00")
+function toLocalDateTime(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return "";
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+}
+
+function initialValue(field: ElicitationFieldSchema): FieldValue {
+  if (field.type === "boolean") return field.default === true;
+  if (field.type === "array") return Array.isArray(field.default) ? field.default : [];
+  if (typeof field.default === "string" && field.format === "date-time") return toLocalDateTime(field.default);
+  return field.default !== undefined && !Array.isArray(field.default) ? String(field.default) : "";
+}
+
+/**
+ * Build the content to send back from the edited values
+ * Numbers are converted, date-times become RFC 3339 (UTC) and empty optional fields are left out
+ */
+function toContent(request: ElicitationRequestInfo, values: Record<string, FieldValue>): ElicitationContent {
+  const content: ElicitationContent = {};
+  for (const [name, field] of Object.entries(request.requestedSchema.properties)) {
+    const value = values[name];
+    if (typeof value === "string") {
+      if (value.trim() === "") continue;
+      if (field.type === "number" || field.type === "integer") {
+        content[name] = Number(value);
+      } else if (field.format === "date-time") {
+        content[name] = new Date(value).toISOString();
+      } else {
+        content[name] = value;
+      }
+    } else {
+      content[name] = value;
+    }
+  }
+  return content;
+}
+
+function Field({
+  name,
+  field,
+  required,
+  value,
+  onChange,
+}: {
+  name: string;
+  field: ElicitationFieldSchema;
+  required: boolean;
+  value: FieldValue;
+  onChange: (value: FieldValue) => void;
+}) {
+  const label = field.title ?? name;
+  const options = getOptions(field);
+
+  if (field.type === "boolean") {
+    return (
+      <label className="flex items-start gap-2 text-sm">
+        <input type="checkbox" checked={value === true} onChange={(e) => onChange(e.target.checked)} className="mt-0.5" />
+        <span>
+          {label}
+          {field.description && <span className="block text-xs text-gray-500 dark:text-gray-400">{field.description}</span>}
+        </span>
+      </label>
+    );
+  }
+
+  let control: React.ReactNode;
+  if (field.type === "array" && options) {
+    const selected = Array.isArray(value) ? value : [];
+    control = (
+      <div className="flex flex-wrap gap-3">
+        {options.map((option) => (
+          <label key={option.value} className="flex items-center gap-1.5 text-sm">
+            <input
+              type="checkbox"
+              checked={selected.includes(option.value)}
+              onChange={(e) =>
+                onChange(e.target.checked ? [...selected, option.value] : selected.filter((v) => v !== option.value))
+              }
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+    );
+  } else if (options) {
+    control = (
+      <select value={value as string} onChange={(e) => onChange(e.target.value)} required={required} className={inputClass}>
+        <option value="">선택하세요</option>
+        {options.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    );
+  } else if (field.type === "number" || field.type === "integer") {
+    control = (
+      <input
+        type="number"
+        value={value as string}
+        onChange={(e) => onChange(e.target.value)}
+        required={required}
+        min={field.minimum}
+        max={field.maximum}
+        step={field.type === "integer" ? 1 : "any"}
+        className={inputClass}
+      />
+    );
+  } else {
+    control = (
+      <input
+        type={(field.format && INPUT_TYPES[field.format]) || "text"}
+        value={value as string}
+        onChange={(e) => onChange(e.target.value)}
+        required={required}
+        minLength={field.minLength}
+        maxLength={field.maxLength}
+        className={inputClass}
+      />
+    );
+  }
+
+  return (
+    <div>
+      <label className="block text-sm font-medium mb-1">
+        {label}
+        {required && <span className="text-red-500 ml-0.5">*</span>}
+      </label>
+      {control}
+      {field.description && <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">{field.description}</div>}
+    </div>
+  );
+}
+
+// 도구 실행 중 서버가 요청한 추가 입력 폼 (requestedSchema로 필드 생성)
+export function ElicitationForm({ request, onAnswer }: ElicitationFormProps) {
+  const { properties, required = [] } = request.requestedSchema;
+  const [values, setValues] = useState<Record<string, FieldValue>>(() =>
+    Object.fromEntries(Object.entries(properties).map(([name, field]) => [name, initialValue(field)]))
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const answer = async (result: ElicitationAnswer) => {
+    setIsSubmitting(true);
+    try {
+      await onAnswer(result);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    answer({ action: "accept", content: toContent(request, values) });
+  };
+
+  const buttonClass =
+    "flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors disabled:opacity-50";
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="rounded-lg border border-violet-200 dark:border-violet-800 bg-violet-50 dark:bg-violet-900/20 p-3 space-y-3"
+    >
+      <div className="flex items-start gap-2 text-sm text-violet-800 dark:text-violet-300">
+        <MessageSquareText size={16} className="mt-0.5 flex-shrink-0" />
+        <span className="whitespace-pre-wrap">{request.message}</span>
+      </div>
+
+      {Object.entries(properties).map(([name, field]) => (
+        <Field
+          key={name}
+          name={name}
+          field={field}
+          required={required.includes(name)}
+          value={values[name]}
+          onChange={(value) => setValues((prev) => ({ ...prev, [name]: value }))}
+        />
+      ))}
+
+      <div className="flex flex-wrap gap-2">
+        <button type="submit" disabled={isSubmitting} className={`${buttonClass} bg-violet-600 hover:bg-violet-700 text-white`}>
+          <Send size={14} />
+          제출
+        </button>
+        <button
+          type="button"
+          onClick={() => answer({ action: "decline" })}
+          disabled={isSubmitting}
+          className={`${buttonClass} bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300 hover:bg-red-100 dark:hover:bg-red-900/50`}
+        >
+          <Ban size={14} />
+          거부
+        </button>
+        <button
+          type="button"
+          onClick={() => answer({ action: "cancel" })}
+          disabled={isSubmitting}
+          className={`${buttonClass} text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700`}
+        >
+          <X size={14} />
+          취소
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useState } from "react";
+import { Ban, Check, Pencil, ShieldCheck, ShieldOff } from "lucide-react";
+import type { ToolApprovalPolicy, ToolCallInfo } from "@/lib/mcp/types";
+import { isDestructiveTool } from "@/lib/mcp/policy";
+
+// User's answer to a pending tool call
+export interface ToolApprovalChoice {
+  approved: boolean;
+  arguments?: Record<string, unknown>; // Edited arguments
+  policy?: ToolApprovalPolicy; // Also remember for this tool
+}
+
+interface ToolApprovalPanelProps {
+  toolCall: ToolCallInfo;
+  onDecision: (choice: ToolApprovalChoice) => Promise<void> | void;
+}
+
+// 도구 호출 승인 패널 (승인 / 거부 / 매개변수 수정 / 정책 저장)
+export function ToolApprovalPanel({ toolCall, onDecision }: ToolApprovalPanelProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [argsText, setArgsText] = useState(() => JSON.stringify(toolCall.arguments ?? {}, null, 2));
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const decide = async (choice: ToolApprovalChoice) => {
+    setIsSubmitting(true);
+    try {
+      await onDecision(choice);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const approve = (policy?: ToolApprovalPolicy) => {
+    if (
+      policy === "allow" &&
+      isDestructiveTool(toolCall) &&
+      !confirm("이 도구는 데이터를 삭제하거나 변경할 수 있습니다(읽기 전용으로 표시되지 않음). 이후 확인 없이 항상 실행할까요?")
+    ) {
+      return;
+    }
+
+    if (!isEditing) {
+      decide({ approved: true, policy });
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(argsText);
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        setParseError("매개변수는 JSON 객체여야 합니다");
+        return;
+      }
+      setParseError(null);
+      decide({ approved: true, arguments: parsed, policy });
+    } catch {
+      setParseError("올바른 JSON이 아닙니다");
+    }
+  };
+
+  const buttonClass =
+    "flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors disabled:opacity-50";
+
+  return (
+    <div className="rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 p-3 space-y-3">
+      <div className="text-sm text-amber-800 dark:text-amber-300">
+        {isDestructiveTool(toolCall)
+          ? "데이터를 삭제하거나 변경할 수 있는 도구입니다. 매개변수를 확인한 후 승인하세요."
+          : "이 도구를 실행하려면 승인이 필요합니다."}
+      </div>
+
+      {isEditing && (
+        <div>
+          <textarea
+            value={argsText}
+            onChange={(e) => setArgsText(e.target.value)}
+            rows={Math.min(12, argsText.split("\n").length + 1)}
+            className="w-full font-mono text-sm p-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-200"
+            spellCheck={false}
+          />
+          {parseError && <div className="text-xs text-red-500 mt-1">{parseError}</div>}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => approve()}
+          disabled={isSubmitting}
+          className={`${buttonClass} bg-blue-600 hover:bg-blue-700 text-white`}
+        >
+          <Check size={14} />
+          {isEditing ? "수정 후 승인" : "승인"}
+        </button>
+        <button
+          onClick={() => approve("allow")}
+          disabled={isSubmitting}
+          className={`${buttonClass} bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700`}
+          title="이후 이 도구는 묻지 않고 실행합니다"
+        >
+          <ShieldCheck size={14} />
+          항상 허용
+        </button>
+        {!isEditing && (
+          <button
+            onClick={() => setIsEditing(true)}
+            disabled={isSubmitting}
+            className={`${buttonClass} bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700`}
+          >
+            <Pencil size={14} />
+            매개변수 수정
+          </button>
+        )}
+        <button
+          onClick={() => decide({ approved: false })}
+          disabled={isSubmitting}
+          className={`${buttonClass} bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300 hover:bg-red-100 dark:hover:bg-red-900/50`}
+        >
+          <Ban size={14} />
+          거부
+        </button>
+        <button
+          onClick={() => decide({ approved: false, policy: "deny" })}
+          disabled={isSubmitting}
+          className={`${buttonClass} text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30`}
+          title="이후 이 도구는 항상 차단합니다"
+        >
+          <ShieldOff size={14} />
+          항상 거부
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -2,9 +2,12 @@
 
 import { useState } from "react";
 import Image from "next/image";
-import { Loader2, CheckCircle, XCircle, Wrench, Download, ZoomIn } from "lucide-react";
-import type { ToolCallInfo } from "@/lib/mcp/types";
+import { Loader2, CheckCircle, XCircle, Wrench, Download, ZoomIn, ShieldAlert, Ban } from "lucide-react";
+import type { ToolCallInfo, ToolCallProgress } from "@/lib/mcp/types";
 import { cn } from "@/lib/utils";
+import { ToolApprovalPanel, type ToolApprovalChoice } from "./ToolApprovalPanel";
+import { ElicitationForm, type ElicitationAnswer } from "./ElicitationForm";
+import { ToolAnnotationBadges } from "@/components/mcp/ToolAnnotationBadges";
 
 // MCP 이미지 콘텐츠 타입 (with optional storage URL)
 interface MCPImageContent {
@@ -207,12 +210,61 @@ function ResultDisplay({ result }: { result: unknown }) {
   );
 }
 
+// 진행률 표시 (total이 없으면 진행 값과 메시지만 표시)
+function ProgressDisplay({ progress }: { progress: ToolCallProgress }) {
+  const percent =
+    progress.total && progress.total > 0
+      ? Math.min(100, Math.max(0, (progress.progress / progress.total) * 100))
+      : null;
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center justify-between gap-2 text-sm text-blue-500">
+        <span className="flex items-center gap-2 min-w-0">
+          <Loader2 size={14} className="animate-spin flex-shrink-0" />
+          <span className="truncate">{progress.message || "실행 중..."}</span>
+        </span>
+        <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+          {percent !== null ? `${Math.round(percent)}%` : progress.progress}
+        </span>
+      </div>
+      <div className="h-1.5 rounded-full bg-blue-100 dark:bg-blue-900/40 overflow-hidden">
+        {percent !== null ? (
+          <div className="h-full bg-blue-500 transition-all duration-300" style={{ width: `${percent}%` }} />
+        ) : (
+          <div className="h-full w-1/3 bg-blue-500 animate-pulse" />
+        )}
+      </div>
+    </div>
+  );
+}
+
+// 타임아웃 / 재시도 요약 (예: "30초 후 시간 초과 · 2회 재시도")
+function describeAttempts(toolCall: ToolCallInfo): string | null {
+  const parts: string[] = [];
+  if (toolCall.timedOut && toolCall.timeoutMs) {
+    parts.push(`${Math.round(toolCall.timeoutMs / 1000)}초 후 시간 초과`);
+  }
+  if (toolCall.retries) {
+    parts.push(toolCall.status === "calling" ? `재시도 중 (${toolCall.retries}회)` : `${toolCall.retries}회 재시도`);
+  }
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
 interface ToolCallCardProps {
   toolCall: ToolCallInfo;
+  onApprovalDecision?: (toolCall: ToolCallInfo, choice: ToolApprovalChoice) => Promise<void> | void;
+  onElicitationAnswer?: (toolCall: ToolCallInfo, answer: ElicitationAnswer) => Promise<void> | void;
 }
 
-export function ToolCallCard({ toolCall }: ToolCallCardProps) {
+export function ToolCallCard({ toolCall, onApprovalDecision, onElicitationAnswer }: ToolCallCardProps) {
   const statusConfig = {
+    pending_approval: {
+      icon: ShieldAlert,
+      iconClass: "",
+      badgeClass: "bg-amber-100 text-amber-700 dark:bg-amber-900 dark:text-amber-300",
+      label: "승인 대기",
+    },
     calling: {
       icon: Loader2,
       iconClass: "animate-spin",
@@ -231,10 +283,17 @@ export function ToolCallCard({ toolCall }: ToolCallCardProps) {
       badgeClass: "bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300",
       label: "오류",
     },
+    rejected: {
+      icon: Ban,
+      iconClass: "",
+      badgeClass: "bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300",
+      label: "거부됨",
+    },
   };
 
   const config = statusConfig[toolCall.status];
   const StatusIcon = config.icon;
+  const attempts = describeAttempts(toolCall);
 
   return (
     <div className="rounded-xl border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50 my-3 overflow-hidden">
@@ -242,7 +301,16 @@ export function ToolCallCard({ toolCall }: ToolCallCardProps) {
       <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
         <Wrench size={16} className="text-blue-500" />
         <span className="font-medium text-gray-900 dark:text-gray-100">함수 호출:</span>
-        <span className="font-mono font-semibold text-gray-900 dark:text-gray-100">{toolCall.toolName}</span>
+        <span className="font-mono font-semibold text-gray-900 dark:text-gray-100">
+          {toolCall.serverName && (
+            <span className="font-normal text-gray-500 dark:text-gray-400">{toolCall.serverName}/</span>
+          )}
+          {toolCall.toolName}
+        </span>
+        {toolCall.toolTitle && (
+          <span className="text-sm text-gray-500 dark:text-gray-400 truncate">{toolCall.toolTitle}</span>
+        )}
+        <ToolAnnotationBadges annotations={toolCall.annotations} />
         <span className={cn(
           "ml-2 px-2 py-0.5 rounded-full text-xs font-medium flex items-center gap-1",
           config.badgeClass
@@ -250,6 +318,9 @@ export function ToolCallCard({ toolCall }: ToolCallCardProps) {
           <StatusIcon size={12} className={config.iconClass} />
           {config.label}
         </span>
+        {attempts && (
+          <span className="text-xs text-amber-600 dark:text-amber-400">{attempts}</span>
+        )}
       </div>
 
       {/* Content */}
@@ -268,6 +339,23 @@ export function ToolCallCard({ toolCall }: ToolCallCardProps) {
           </div>
         </div>
 
+        {/* Approval */}
+        {toolCall.status === "pending_approval" && onApprovalDecision && (
+          <ToolApprovalPanel
+            toolCall={toolCall}
+            onDecision={(choice) => onApprovalDecision(toolCall, choice)}
+          />
+        )}
+
+        {/* Elicitation (the server asks for more input mid-call) */}
+        {toolCall.status === "calling" && toolCall.elicitation && onElicitationAnswer && (
+          <ElicitationForm
+            key={toolCall.elicitation.id}
+            request={toolCall.elicitation}
+            onAnswer={(answer) => onElicitationAnswer(toolCall, answer)}
+          />
+        )}
+
         {/* Result */}
         {toolCall.status === "success" && (
           <ResultDisplay result={toolCall.result} />
@@ -275,9 +363,21 @@ export function ToolCallCard({ toolCall }: ToolCallCardProps) {
 
         {/* Loading */}
         {toolCall.status === "calling" && (
-          <div className="flex items-center gap-2 text-sm text-blue-500">
-            <Loader2 size={14} className="animate-spin" />
-            <span>실행 중...</span>
+          toolCall.progress ? (
+            <ProgressDisplay progress={toolCall.progress} />
+          ) : (
+            <div className="flex items-center gap-2 text-sm text-blue-500">
+              <Loader2 size={14} className="animate-spin" />
+              <span>실행 중...</span>
+            </div>
+          )
+        )}
+
+        {/* Rejected */}
+        {toolCall.status === "rejected" && (
+          <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+            <Ban size={14} />
+            <span>실행되지 않음{toolCall.error ? `: ${toolCall.error}` : ""}</span>
           </div>
         )}
 
@@ -300,15 +400,22 @@ export function ToolCallCard({ toolCall }: ToolCallCardProps) {
 // Multiple tool calls display
 interface ToolCallsDisplayProps {
   toolCalls: ToolCallInfo[];
+  onApprovalDecision?: ToolCallCardProps["onApprovalDecision"];
+  onElicitationAnswer?: ToolCallCardProps["onElicitationAnswer"];
 }
 
-export function ToolCallsDisplay({ toolCalls }: ToolCallsDisplayProps) {
+export function ToolCallsDisplay({ toolCalls, onApprovalDecision, onElicitationAnswer }: ToolCallsDisplayProps) {
   if (toolCalls.length === 0) return null;
 
   return (
     <div className="space-y-2">
       {toolCalls.map((tc) => (
-        <ToolCallCard key={tc.id} toolCall={tc} />
+        <ToolCallCard
+          key={tc.id}
+          toolCall={tc}
+          onApprovalDecision={onApprovalDecision}
+          onElicitationAnswer={onElicitationAnswer}
+        />
       ))}
     </div>
   );
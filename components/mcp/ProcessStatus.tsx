@@ -0,0 +1,36 @@
+"use client";
+
+import { Terminal } from "lucide-react";
+import type { MCPProcessInfo } from "@/lib/mcp/types";
+import { cn } from "@/lib/utils";
+
+// STDIO 서버 프로세스 상태 (PID, 종료 여부, stderr 출력)
+export function ProcessStatus({ process }: { process: MCPProcessInfo }) {
+  const exited = process.exitedAt !== undefined;
+  const crashed = exited && !!process.crashed;
+
+  return (
+    <div className="mt-3 text-xs">
+      <div className="flex items-center gap-2 text-gray-400">
+        <Terminal size={12} />
+        <span className="font-mono">PID {process.pid}</span>
+        {exited ? (
+          <span className={cn(crashed ? "text-red-400" : "text-gray-500")}>
+            {crashed ? "비정상 종료" : "종료됨"}
+          </span>
+        ) : (
+          <span className="text-emerald-400">실행 중</span>
+        )}
+      </div>
+      {process.stderr && (
+        // Expanded when the process crashed so the stack trace is visible right away
+        <details open={crashed} className="mt-2">
+          <summary className="cursor-pointer text-gray-400 hover:text-gray-200">stderr</summary>
+          <pre className="mt-1 p-2 max-h-64 overflow-auto bg-gray-900 rounded-lg text-gray-300 whitespace-pre-wrap break-all">
+            {process.stderr}
+          </pre>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { useState } from "react";
+import type { MCPServerConfig } from "@/lib/mcp/types";
+
+export type RequestPolicyValue = Pick<MCPServerConfig, "requestTimeoutMs" | "toolTimeouts" | "maxRetries">;
+
+interface RequestPolicyFieldsProps {
+  value: RequestPolicyValue;
+  onChange: (value: RequestPolicyValue) => void;
+}
+
+const inputClass =
+  "w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent outline-none text-sm";
+
+// "tool=seconds" per line <-> { tool: ms }
+function formatToolTimeouts(toolTimeouts?: Record<string, number>): string {
+  return Object.entries(toolTimeouts ?? {})
+    .map(([tool, ms]) => `${tool}=${ms / 1000}`)
+    .join("\n");
+}
+
+function parseToolTimeouts(text: string): Record<string, number> | undefined {
+  const entries = text
+    .split("\n")
+    .map((line) => line.split("="))
+    .filter(([tool, seconds]) => tool?.trim() && Number(seconds) > 0)
+    .map(([tool, seconds]) => [tool.trim(), Math.round(Number(seconds) * 1000)] as const);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+const optionalNumber = (text: string) => (text.trim() === "" ? undefined : Number(text));
+
+// 요청 타임아웃 / 재시도 설정 (비워두면 기본값 사용)
+export function RequestPolicyFields({ value, onChange }: RequestPolicyFieldsProps) {
+  const [toolTimeoutsText, setToolTimeoutsText] = useState(() => formatToolTimeouts(value.toolTimeouts));
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium mb-1">요청 타임아웃 (초)</label>
+          <input
+            type="number"
+            min={1}
+            value={value.requestTimeoutMs !== undefined ? value.requestTimeoutMs / 1000 : ""}
+            onChange={(e) => {
+              const seconds = optionalNumber(e.target.value);
+              onChange({ ...value, requestTimeoutMs: seconds && seconds > 0 ? seconds * 1000 : undefined });
+            }}
+            className={inputClass}
+            placeholder="30"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">재시도 횟수</label>
+          <input
+            type="number"
+            min={0}
+            max={10}
+            value={value.maxRetries ?? ""}
+            onChange={(e) => {
+              const retries = optionalNumber(e.target.value);
+              onChange({ ...value, maxRetries: retries !== undefined && retries >= 0 ? Math.floor(retries) : undefined });
+            }}
+            className={inputClass}
+            placeholder="2"
+          />
+        </div>
+      </div>
+      <div>
+        <label className="block text-sm font-medium mb-1">도구별 타임아웃</label>
+        <textarea
+          value={toolTimeoutsText}
+          onChange={(e) => {
+            setToolTimeoutsText(e.target.value);
+            onChange({ ...value, toolTimeouts: parseToolTimeouts(e.target.value) });
+          }}
+          rows={2}
+          className={`${inputClass} font-mono`}
+          placeholder={"slow_tool=120\nquick_tool=5"}
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          한 줄에 하나씩 도구이름=초. 재시도는 멱등/읽기 전용 도구의 연결 오류에만 적용됩니다.
+        </p>
+      </div>
+    </div>
+  );
+}
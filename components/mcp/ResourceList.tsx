@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import { Braces, FileText, Loader2 } from "lucide-react";
+import { useMCP } from "@/lib/mcp/context";
+import type { MCPServerCapabilities, MCPResource, MCPResourceTemplate } from "@/lib/mcp/types";
+
+// Resources rendered per "더 보기" click
+const PAGE_SIZE = 50;
+
+interface ResourceListProps {
+  serverId: string;
+  capabilities: MCPServerCapabilities;
+  onSelect: (resource: MCPResource | MCPResourceTemplate) => void;
+}
+
+// 리소스 템플릿 + 리소스 목록 (대용량 카탈로그는 "더 보기"로 나눠서 표시/로드)
+export function ResourceList({ serverId, capabilities, onSelect }: ResourceListProps) {
+  const { loadMoreResources } = useMCP();
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const { resources, resourceTemplates, resourcesNextCursor } = capabilities;
+  const hasMore = visibleCount < resources.length || !!resourcesNextCursor;
+
+  const handleLoadMore = async () => {
+    setLoadError(null);
+
+    // Fetch the next page from the server once the cached resources run out
+    if (visibleCount + PAGE_SIZE > resources.length && resourcesNextCursor) {
+      setIsLoadingMore(true);
+      const updated = await loadMoreResources(serverId);
+      setIsLoadingMore(false);
+      if (!updated) {
+        setLoadError("리소스를 더 불러오지 못했습니다.");
+        return;
+      }
+    }
+
+    setVisibleCount((count) => count + PAGE_SIZE);
+  };
+
+  return (
+    <div className="space-y-4">
+      {resourceTemplates.length > 0 && (
+        <div>
+          <div className="flex items-center gap-2 text-sm text-gray-400 mb-2">
+            <Braces size={14} />
+            <span>Resource Templates ({resourceTemplates.length})</span>
+          </div>
+          <div className="space-y-1">
+            {resourceTemplates.map((template) => (
+              <button
+                key={template.uriTemplate}
+                onClick={() => onSelect(template)}
+                className="w-full text-left p-2 bg-gray-700/50 hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                <div className="font-mono text-sm text-amber-400">{template.name}</div>
+                <div className="text-xs text-gray-500 font-mono truncate">{template.uriTemplate}</div>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {resources.length > 0 && (
+        <div>
+          <div className="flex items-center gap-2 text-sm text-gray-400 mb-2">
+            <FileText size={14} />
+            <span>
+              Resources ({resources.length}
+              {resourcesNextCursor ? "+" : ""})
+            </span>
+          </div>
+          <div className="space-y-1">
+            {resources.slice(0, visibleCount).map((resource) => (
+              <button
+                key={resource.uri}
+                onClick={() => onSelect(resource)}
+                className="w-full text-left p-2 bg-gray-700/50 hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                <div className="font-mono text-sm text-amber-400">{resource.name}</div>
+                <div className="text-xs text-gray-500 font-mono truncate">{resource.uri}</div>
+              </button>
+            ))}
+          </div>
+          {hasMore && (
+            <button
+              onClick={handleLoadMore}
+              disabled={isLoadingMore}
+              className="w-full mt-2 py-2 flex items-center justify-center gap-2 text-sm text-gray-400 hover:text-gray-200 hover:bg-gray-700/50 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {isLoadingMore ? (
+                <>
+                  <Loader2 size={14} className="animate-spin" />
+                  불러오는 중...
+                </>
+              ) : (
+                "더 보기"
+              )}
+            </button>
+          )}
+          {loadError && <div className="mt-1 text-xs text-red-400">{loadError}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { FolderOpen, Plus, X } from "lucide-react";
+import type { MCPRoot } from "@/lib/mcp/types";
+
+interface RootsFieldsProps {
+  value: MCPRoot[];
+  onChange: (value: MCPRoot[]) => void;
+}
+
+const inputClass =
+  "px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent outline-none text-sm";
+
+// 서버가 접근할 수 있는 작업 디렉터리 (roots/list 응답)
+export function RootsFields({ value, onChange }: RootsFieldsProps) {
+  const update = (index: number, root: MCPRoot) => onChange(value.map((r, i) => (i === index ? root : r)));
+
+  return (
+    <div>
+      <label className="flex items-center gap-1.5 text-sm font-medium mb-1">
+        <FolderOpen size={14} />
+        Roots (작업 디렉터리)
+      </label>
+      <div className="space-y-2">
+        {value.map((root, index) => (
+          <div key={index} className="flex gap-2">
+            <input
+              type="text"
+              value={root.uri}
+              onChange={(e) => update(index, { ...root, uri: e.target.value })}
+              className={`${inputClass} flex-1 min-w-0 font-mono`}
+              placeholder="/home/me/project 또는 file:///home/me/project"
+            />
+            <input
+              type="text"
+              value={root.name ?? ""}
+              onChange={(e) => update(index, { ...root, name: e.target.value || undefined })}
+              className={`${inputClass} w-32`}
+              placeholder="이름 (선택)"
+            />
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+              className="p-2 hover:bg-gray-700 rounded-lg transition-colors text-gray-400 hover:text-red-400"
+              title="삭제"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => onChange([...value, { uri: "" }])}
+          className="flex items-center gap-1.5 text-sm text-gray-400 hover:text-gray-200 transition-colors"
+        >
+          <Plus size={14} />
+          디렉터리 추가
+        </button>
+      </div>
+    </div>
+  );
+}
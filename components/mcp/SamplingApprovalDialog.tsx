@@ -0,0 +1,97 @@
+"use client";
+
+import { useState } from "react";
+import { Ban, Check, Sparkles } from "lucide-react";
+import { useMCP } from "@/lib/mcp/context";
+
+// 서버의 sampling 요청(LLM 호출) 검토 및 승인 — 대기 중인 요청을 하나씩 표시
+export function SamplingApprovalDialog() {
+  const { samplingRequests, respondToSampling } = useMCP();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const request = samplingRequests[0];
+  if (!request) return null;
+
+  const decide = async (approved: boolean) => {
+    setIsSubmitting(true);
+    try {
+      await respondToSampling(request.id, approved);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-900 text-gray-100 border border-gray-700 rounded-xl w-full max-w-2xl max-h-[80vh] overflow-hidden flex flex-col">
+        <div className="p-4 border-b border-gray-700">
+          <div className="flex items-center gap-2">
+            <Sparkles size={18} className="text-amber-400" />
+            <h3 className="font-semibold text-lg">LLM 사용 요청</h3>
+            {samplingRequests.length > 1 && (
+              <span className="text-xs text-gray-400">외 {samplingRequests.length - 1}건 대기 중</span>
+            )}
+          </div>
+          <p className="text-sm text-gray-400 mt-1">
+            <span className="text-gray-200">{request.serverName}</span> 서버가 LLM 응답 생성을 요청했습니다.
+          </p>
+        </div>
+
+        <div className="p-4 space-y-4 flex-1 overflow-auto text-sm">
+          <div className="grid grid-cols-2 gap-3 text-xs">
+            <div>
+              <div className="text-gray-400 mb-1">모델</div>
+              <div className="font-mono text-emerald-400">{request.model}</div>
+              {request.modelHints && request.modelHints.length > 0 && (
+                <div className="text-gray-500 mt-1">요청한 모델: {request.modelHints.join(", ")}</div>
+              )}
+            </div>
+            <div>
+              <div className="text-gray-400 mb-1">최대 토큰</div>
+              <div className="font-mono">{request.maxTokens}</div>
+              {request.maxTokens < request.requestedMaxTokens && (
+                <div className="text-gray-500 mt-1">요청 {request.requestedMaxTokens} → 서버 한도로 제한</div>
+              )}
+            </div>
+          </div>
+
+          {request.systemPrompt && (
+            <div>
+              <div className="text-xs text-gray-400 mb-1">시스템 프롬프트</div>
+              <pre className="p-3 bg-gray-800 rounded-lg text-xs whitespace-pre-wrap">{request.systemPrompt}</pre>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="text-xs text-gray-400">메시지</div>
+            {request.messages.map((message, index) => (
+              <div key={index} className="p-3 bg-gray-800 rounded-lg">
+                <div className="text-xs text-gray-500 mb-1">{message.role}</div>
+                <div className="whitespace-pre-wrap">{message.text}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex gap-2">
+          <button
+            onClick={() => decide(true)}
+            disabled={isSubmitting}
+            className="flex-1 px-4 py-2 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
+          >
+            <Check size={16} />
+            승인
+          </button>
+          <button
+            onClick={() => decide(false)}
+            disabled={isSubmitting}
+            className="flex-1 px-4 py-2 bg-red-600/20 hover:bg-red-600/30 text-red-400 disabled:opacity-50 rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
+          >
+            <Ban size={16} />
+            거부
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import type { MCPServerConfig } from "@/lib/mcp/types";
+
+export type SamplingLimitValue = Pick<MCPServerConfig, "samplingMaxTokens" | "samplingTokenBudget">;
+
+interface SamplingLimitFieldsProps {
+  value: SamplingLimitValue;
+  onChange: (value: SamplingLimitValue) => void;
+}
+
+const inputClass =
+  "w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent outline-none text-sm";
+
+// Empty or non-positive input means "use the default"
+const optionalTokens = (text: string) => {
+  const tokens = Math.floor(Number(text));
+  return text.trim() !== "" && tokens > 0 ? tokens : undefined;
+};
+
+// 서버의 sampling(LLM 사용) 요청 토큰 한도
+export function SamplingLimitFields({ value, onChange }: SamplingLimitFieldsProps) {
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div>
+        <label className="block text-sm font-medium mb-1">Sampling 요청당 최대 토큰</label>
+        <input
+          type="number"
+          min={1}
+          value={value.samplingMaxTokens ?? ""}
+          onChange={(e) => onChange({ ...value, samplingMaxTokens: optionalTokens(e.target.value) })}
+          className={inputClass}
+          placeholder="1024"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium mb-1">Sampling 서버당 총 토큰</label>
+        <input
+          type="number"
+          min={1}
+          value={value.samplingTokenBudget ?? ""}
+          onChange={(e) => onChange({ ...value, samplingTokenBudget: optionalTokens(e.target.value) })}
+          className={inputClass}
+          placeholder="제한 없음"
+        />
+      </div>
+    </div>
+  );
+}
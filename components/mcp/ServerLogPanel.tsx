@@ -0,0 +1,147 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ScrollText, Search, Trash2 } from "lucide-react";
+import { useMCP } from "@/lib/mcp/context";
+import type { MCPApiResponse, MCPLogEntry, MCPLogLevel, MCPServerConfig } from "@/lib/mcp/types";
+import { cn } from "@/lib/utils";
+
+// Least severe first
+const LOG_LEVELS: MCPLogLevel[] = ["debug", "info", "notice", "warning", "error", "critical", "alert", "emergency"];
+
+const levelColor: Record<MCPLogLevel, string> = {
+  debug: "text-gray-500",
+  info: "text-blue-400",
+  notice: "text-cyan-400",
+  warning: "text-amber-400",
+  error: "text-red-400",
+  critical: "text-red-500",
+  alert: "text-red-500",
+  emergency: "text-red-600",
+};
+
+// Matches the server-side buffer size
+const MAX_ENTRIES = 500;
+const POLL_INTERVAL_MS = 2000;
+
+const selectClass = "px-2 py-1 bg-gray-800 border border-gray-700 rounded text-xs outline-none";
+
+const formatData = (data: unknown) => (typeof data === "string" ? data : JSON.stringify(data));
+
+// 서버 로그 (notifications/message) — 레벨 / 텍스트로 필터링
+export function ServerLogPanel({ server }: { server: MCPServerConfig }) {
+  const { setLogLevel } = useMCP();
+  const [entries, setEntries] = useState<MCPLogEntry[]>([]);
+  const [minLevel, setMinLevel] = useState<MCPLogLevel>("debug");
+  const [query, setQuery] = useState("");
+
+  // Poll for entries newer than the last one received
+  useEffect(() => {
+    let lastId = 0;
+    let cancelled = false;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/mcp/logs?serverId=${server.id}&after=${lastId}`);
+        const result: MCPApiResponse<MCPLogEntry[]> = await response.json();
+        if (cancelled || !result.success || !result.data?.length) return;
+
+        const received = result.data;
+        lastId = received[received.length - 1].id;
+        setEntries((prev) => [...prev, ...received].slice(-MAX_ENTRIES));
+      } catch (error) {
+        console.error("Failed to fetch server logs:", error);
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [server.id]);
+
+  const handleClear = async () => {
+    await fetch(`/api/mcp/logs?serverId=${server.id}`, { method: "DELETE" }).catch(() => {});
+    setEntries([]);
+  };
+
+  const minIndex = LOG_LEVELS.indexOf(minLevel);
+  const needle = query.trim().toLowerCase();
+  const visible = entries.filter(
+    (entry) =>
+      LOG_LEVELS.indexOf(entry.level) >= minIndex &&
+      (!needle || `${entry.logger ?? ""} ${formatData(entry.data)}`.toLowerCase().includes(needle))
+  );
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-2 flex-wrap">
+        <div className="flex items-center gap-2 text-sm text-gray-400">
+          <ScrollText size={14} />
+          <span>Logs ({visible.length})</span>
+        </div>
+        <div className="flex items-center gap-1 ml-auto">
+          <label className="text-xs text-gray-500" title="서버가 이 레벨 이상의 로그만 보냅니다 (logging/setLevel)">
+            서버 레벨
+          </label>
+          <select
+            value={server.logLevel ?? "info"}
+            onChange={(e) => setLogLevel(server.id, e.target.value as MCPLogLevel)}
+            className={selectClass}
+          >
+            {LOG_LEVELS.map((level) => (
+              <option key={level} value={level}>
+                {level}
+              </option>
+            ))}
+          </select>
+          <label className="text-xs text-gray-500 ml-2">표시</label>
+          <select value={minLevel} onChange={(e) => setMinLevel(e.target.value as MCPLogLevel)} className={selectClass}>
+            {LOG_LEVELS.map((level) => (
+              <option key={level} value={level}>
+                {level}+
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleClear}
+            className="p-1.5 hover:bg-gray-700 rounded transition-colors text-gray-400"
+            title="로그 지우기"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="relative mb-2">
+        <Search size={12} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-500" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="w-full pl-7 pr-2 py-1 bg-gray-800 border border-gray-700 rounded text-xs outline-none"
+          placeholder="로그 검색"
+        />
+      </div>
+
+      <div className="max-h-64 overflow-auto bg-gray-900 rounded-lg p-2 font-mono text-xs space-y-0.5">
+        {visible.length === 0 ? (
+          <div className="text-gray-500 text-center py-2">
+            {entries.length === 0 ? "로그가 없습니다." : "필터와 일치하는 로그가 없습니다."}
+          </div>
+        ) : (
+          visible.map((entry) => (
+            <div key={entry.id} className="flex gap-2">
+              <span className="text-gray-600 flex-shrink-0">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+              <span className={cn("w-16 flex-shrink-0", levelColor[entry.level])}>{entry.level}</span>
+              {entry.logger && <span className="text-gray-400 flex-shrink-0">[{entry.logger}]</span>}
+              <span className="text-gray-200 whitespace-pre-wrap break-all">{formatData(entry.data)}</span>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
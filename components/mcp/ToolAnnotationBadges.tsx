@@ -0,0 +1,58 @@
+"use client";
+
+import { Eye, AlertTriangle, Repeat, Globe } from "lucide-react";
+import type { MCPToolAnnotations } from "@/lib/mcp/types";
+import { cn } from "@/lib/utils";
+
+interface ToolAnnotationBadgesProps {
+  annotations?: MCPToolAnnotations;
+  className?: string;
+}
+
+// 서버가 선언한 도구 힌트 배지 (읽기 전용 / 파괴적 / 멱등 / 외부 연동)
+export function ToolAnnotationBadges({ annotations, className }: ToolAnnotationBadgesProps) {
+  if (!annotations) return null;
+
+  const badges = [
+    annotations.readOnlyHint && {
+      key: "readOnly",
+      icon: Eye,
+      label: "읽기 전용",
+      className: "bg-emerald-500/15 text-emerald-600 dark:text-emerald-400",
+    },
+    !annotations.readOnlyHint && annotations.destructiveHint && {
+      key: "destructive",
+      icon: AlertTriangle,
+      label: "파괴적",
+      className: "bg-red-500/15 text-red-600 dark:text-red-400",
+    },
+    annotations.idempotentHint && {
+      key: "idempotent",
+      icon: Repeat,
+      label: "멱등",
+      className: "bg-blue-500/15 text-blue-600 dark:text-blue-400",
+    },
+    annotations.openWorldHint && {
+      key: "openWorld",
+      icon: Globe,
+      label: "외부 연동",
+      className: "bg-purple-500/15 text-purple-600 dark:text-purple-400",
+    },
+  ].filter((badge) => !!badge);
+
+  if (badges.length === 0) return null;
+
+  return (
+    <span className={cn("inline-flex flex-wrap gap-1", className)}>
+      {badges.map(({ key, icon: Icon, label, className: badgeClass }) => (
+        <span
+          key={key}
+          className={cn("inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium", badgeClass)}
+        >
+          <Icon size={10} />
+          {label}
+        </span>
+      ))}
+    </span>
+  );
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import type { ToolApprovalPolicy } from "@/lib/mcp/types";
+import { cn } from "@/lib/utils";
+
+const POLICY_OPTIONS: Array<{ value: ToolApprovalPolicy; label: string; className: string }> = [
+  { value: "allow", label: "항상 허용", className: "text-emerald-400" },
+  { value: "ask", label: "항상 확인", className: "text-amber-400" },
+  { value: "deny", label: "허용 안 함", className: "text-red-400" },
+];
+
+interface ToolPolicySelectProps {
+  policy: ToolApprovalPolicy;
+  onChange: (policy: ToolApprovalPolicy) => void;
+  destructive?: boolean; // "항상 허용" requires confirmation
+}
+
+// 채팅에서 도구 호출 시 승인 정책 선택
+export function ToolPolicySelect({ policy, onChange, destructive }: ToolPolicySelectProps) {
+  const current = POLICY_OPTIONS.find((option) => option.value === policy);
+
+  const handleChange = (next: ToolApprovalPolicy) => {
+    if (
+      next === "allow" &&
+      destructive &&
+      !confirm("이 도구는 데이터를 삭제하거나 변경할 수 있습니다(읽기 전용으로 표시되지 않음). 확인 없이 항상 실행할까요?")
+    ) {
+      return;
+    }
+    onChange(next);
+  };
+
+  return (
+    <select
+      value={policy}
+      onChange={(e) => handleChange(e.target.value as ToolApprovalPolicy)}
+      className={cn(
+        "text-xs bg-gray-800 border border-gray-600 rounded-md px-2 py-1 focus:outline-none focus:border-emerald-500",
+        current?.className
+      )}
+      title="채팅에서 이 도구를 호출할 때의 승인 정책"
+    >
+      {POLICY_OPTIONS.map((option) => (
+        <option key={option.value} value={option.value} className="text-gray-100">
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+}
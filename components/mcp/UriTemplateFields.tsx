@@ -0,0 +1,62 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+
+interface UriTemplateFieldsProps {
+  uriTemplate: string;
+  onChange: (uri: string | null) => void; // Expanded URI, null if the template is invalid
+}
+
+// Invalid templates from the server shouldn't break the page
+function parseTemplate(uriTemplate: string): UriTemplate | null {
+  try {
+    return new UriTemplate(uriTemplate);
+  } catch {
+    return null;
+  }
+}
+
+// RFC 6570 리소스 템플릿 변수 입력 (비워둔 변수는 URI에서 생략)
+export function UriTemplateFields({ uriTemplate, onChange }: UriTemplateFieldsProps) {
+  const template = useMemo(() => parseTemplate(uriTemplate), [uriTemplate]);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const uri = useMemo(() => {
+    if (!template) return null;
+    const variables = Object.fromEntries(Object.entries(values).filter(([, value]) => value !== ""));
+    return template.expand(variables);
+  }, [template, values]);
+
+  useEffect(() => {
+    onChange(uri);
+  }, [uri, onChange]);
+
+  if (!template) {
+    return (
+      <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm">
+        잘못된 URI 템플릿입니다: <span className="font-mono">{uriTemplate}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {template.variableNames.map((name) => (
+        <div key={name}>
+          <label className="block text-sm font-medium mb-1 font-mono">{name}</label>
+          <input
+            type="text"
+            value={values[name] ?? ""}
+            onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent outline-none text-sm"
+          />
+        </div>
+      ))}
+      <div>
+        <label className="block text-sm font-medium mb-1">URI</label>
+        <div className="p-2 bg-gray-800 rounded-lg text-xs font-mono text-amber-400 break-all">{uri}</div>
+      </div>
+    </div>
+  );
+}
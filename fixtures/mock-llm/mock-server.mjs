@@ -0,0 +1,41 @@
+// Minimal STDIO MCP server for the offline chat check (test-chat-mock.mjs)
+// Provides the tools fixtures/mock-llm/tool-calls.json calls: get_current_time and generate_image
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { z } from "zod";
+
+// 1x1 PNG; image results go through processResultImages like real ones
+const PIXEL_PNG =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==";
+
+const server = new McpServer({ name: "mock", version: "1.0.0" });
+
+server.registerTool(
+  "get_current_time",
+  {
+    description: "Current time in a timezone",
+    inputSchema: { timezone: z.string() },
+    // Read-only tools run without asking for approval
+    annotations: { readOnlyHint: true },
+  },
+  async ({ timezone }) => ({
+    content: [{ type: "text", text: `${new Date().toLocaleString("en-US", { timeZone: timezone })} (${timezone})` }],
+  })
+);
+
+server.registerTool(
+  "generate_image",
+  {
+    description: "Generate an image from a prompt",
+    inputSchema: { prompt: z.string() },
+    annotations: { readOnlyHint: true },
+  },
+  async ({ prompt }) => ({
+    content: [
+      { type: "image", data: PIXEL_PNG, mimeType: "image/png" },
+      { type: "text", text: `Image for: ${prompt}` },
+    ],
+  })
+);
+
+await server.connect(new StdioServerTransport());
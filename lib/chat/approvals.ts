@@ -0,0 +1,64 @@
+// Tool Call Approvals (server-only)
+// The chat route waits here for the user's decision on a pending tool call;
+// /api/chat/approvals delivers it
+
+export interface ToolApprovalDecision {
+  approved: boolean;
+  arguments?: Record<string, unknown>; // Edited arguments, if the user changed them
+  reason?: string; // Why the call was not approved
+}
+
+// Pending calls are rejected if nobody answers in time
+const APPROVAL_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Extend globalThis type for TypeScript
+declare global {
+  var __toolApprovalWaiters: Map<string, (decision: ToolApprovalDecision) => void> | undefined;
+}
+
+// Shared across requests (the approval arrives on a separate request)
+const waiters = (globalThis.__toolApprovalWaiters ??= new Map());
+
+/**
+ * Wait for the user to approve or reject a tool call
+ * Resolves with a rejection on timeout or when the signal aborts
+ */
+export function waitForApproval(
+  toolCallId: string,
+  signal?: AbortSignal,
+  timeoutMs = APPROVAL_TIMEOUT_MS
+): Promise<ToolApprovalDecision> {
+  return new Promise((resolve) => {
+    const finish = (decision: ToolApprovalDecision) => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      waiters.delete(toolCallId);
+      resolve(decision);
+    };
+
+    const onAbort = () => finish({ approved: false, reason: "Request was cancelled" });
+    const timer = setTimeout(
+      () => finish({ approved: false, reason: "Approval timed out" }),
+      timeoutMs
+    );
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener("abort", onAbort);
+    waiters.set(toolCallId, finish);
+  });
+}
+
+/**
+ * Deliver the user's decision for a pending tool call
+ * Returns false if no call with that ID is waiting
+ */
+export function resolveApproval(toolCallId: string, decision: ToolApprovalDecision): boolean {
+  const finish = waiters.get(toolCallId);
+  if (!finish) return false;
+
+  finish(decision);
+  return true;
+}
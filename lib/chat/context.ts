@@ -0,0 +1,150 @@
+// Chat Context Window Management (server-only)
+// Keeps the history sent to the model under a per-model token budget by folding
+// the oldest turns into a rolling summary
+
+import { composeHistory, type ChatHistoryMessage } from "./history";
+import type { LLMMessage, LLMProvider } from "@/lib/llm";
+import type { SessionSummary } from "@/lib/supabase";
+
+// History budgets (tokens) by model name; well below the real context windows to bound cost
+const MODEL_CONTEXT_BUDGETS: Array<{ match: RegExp; tokens: number }> = [
+  { match: /^gemini/, tokens: 32000 },
+  { match: /^claude/, tokens: 32000 },
+  { match: /^(gpt-4|gpt-5|o\d)/, tokens: 32000 },
+  { match: /^gpt-3\.5/, tokens: 12000 },
+];
+
+// Local / unknown models often have small windows
+const DEFAULT_CONTEXT_BUDGET = 8000;
+
+const SUMMARY_MAX_TOKENS = 1024;
+
+export function getContextBudget(model: string): number {
+  const configured = Number(process.env.CHAT_CONTEXT_TOKEN_BUDGET);
+  if (Number.isInteger(configured) && configured > 0) return configured;
+  return MODEL_CONTEXT_BUDGETS.find((b) => b.match.test(model))?.tokens ?? DEFAULT_CONTEXT_BUDGET;
+}
+
+/**
+ * Rough token estimate (~4 characters per token)
+ * Good enough for budgeting across providers without shipping tokenizers
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateMessageTokens(message: LLMMessage): number {
+  switch (message.role) {
+    case "user":
+      return estimateTokens(message.text) + 4;
+    case "assistant":
+      return estimateTokens(message.text + JSON.stringify(message.toolCalls ?? [])) + 4;
+    case "tool":
+      return estimateTokens(JSON.stringify(message.results)) + 4;
+  }
+}
+
+const estimateHistoryTokens = (history: LLMMessage[]) =>
+  history.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+
+// Plain transcript of UI messages for the summariser
+function toTranscript(messages: ChatHistoryMessage[]): string {
+  return messages
+    .map((msg) => {
+      const lines = [`${msg.role === "user" ? "User" : "Assistant"}: ${msg.content}`];
+      for (const toolCall of msg.toolCalls ?? []) {
+        const outcome =
+          toolCall.status === "success"
+            ? JSON.stringify(toolCall.result ?? null).slice(0, 500)
+            : `error: ${toolCall.error ?? "did not complete"}`;
+        lines.push(`  [tool ${toolCall.toolName}(${JSON.stringify(toolCall.arguments ?? {})}) -> ${outcome}]`);
+      }
+      return lines.join("\n");
+    })
+    .join("\n\n");
+}
+
+/**
+ * Merge folded messages into the previous summary with one LLM call
+ */
+async function summarizeTurns(
+  provider: LLMProvider,
+  model: string,
+  previousSummary: string | undefined,
+  folded: ChatHistoryMessage[],
+  signal?: AbortSignal
+): Promise<string> {
+  const response = await provider.chat({
+    model,
+    system:
+      "You maintain a rolling summary of a conversation between a user and an AI assistant. " +
+      "Merge the existing summary with the new messages. Keep facts, decisions, user preferences, " +
+      "open questions and important tool results. Write concise bullet points in the conversation's language.",
+    messages: [
+      {
+        role: "user",
+        text: `Existing summary:\n${previousSummary || "(none)"}\n\nNew messages:\n${toTranscript(folded)}`,
+      },
+    ],
+    maxTokens: SUMMARY_MAX_TOKENS,
+    signal,
+  });
+  return response.text.trim();
+}
+
+export interface FitContextResult {
+  history: LLMMessage[];
+  summary: SessionSummary | null;
+  summaryChanged: boolean;
+}
+
+/**
+ * Build the model history for a request within the token budget
+ * Whole turns (a user message and the replies that follow) are folded oldest-first.
+ * The latest user turn is always kept. If summarising fails or is aborted, the folded turns are
+ * left out of this request only; the stored summary is unchanged so they are folded again next time.
+ */
+export async function fitContextWindow(options: {
+  messages: ChatHistoryMessage[];
+  summary: SessionSummary | null;
+  provider: LLMProvider;
+  model: string;
+  reservedTokens?: number; // System prompt, tool declarations, etc.
+  signal?: AbortSignal;
+}): Promise<FitContextResult> {
+  const { messages, provider, model, signal } = options;
+  const budget = getContextBudget(model) - (options.reservedTokens ?? 0);
+
+  // Ignore a stored summary that no longer matches the conversation
+  const stored = options.summary && options.summary.messageCount < messages.length ? options.summary : null;
+  let start = stored?.messageCount ?? 0;
+  let summaryTokens = stored ? estimateTokens(stored.text) : 0;
+  let history = composeHistory(messages.slice(start));
+
+  const foldStart = start;
+  while (estimateHistoryTokens(history) + summaryTokens > budget) {
+    const nextTurn = messages.findIndex((msg, i) => i > start && msg.role === "user");
+    if (nextTurn === -1) break;
+
+    start = nextTurn;
+    history = composeHistory(messages.slice(start));
+    // Reserve room for the summary that will replace the folded turns
+    summaryTokens = Math.max(summaryTokens, SUMMARY_MAX_TOKENS);
+  }
+
+  if (start === foldStart) {
+    return { history, summary: stored, summaryChanged: false };
+  }
+
+  const folded = messages.slice(foldStart, start);
+  try {
+    const text = await summarizeTurns(provider, model, stored?.text, folded, signal);
+    return { history, summary: { text, messageCount: start }, summaryChanged: true };
+  } catch (error) {
+    // Keep the stored summary so the folded turns are summarised again next time
+    if (!signal?.aborted) {
+      console.error("Failed to summarise earlier context:", error);
+    }
+    return { history, summary: stored, summaryChanged: false };
+  }
+}
@@ -0,0 +1,169 @@
+// Chat Stream Protocol (client-safe)
+// /api/chat responds with text/event-stream; each SSE message is one typed event
+
+import type { ToolCallInfo, ToolCallProgress } from "@/lib/mcp/types";
+import type { SessionSummary } from "@/lib/supabase";
+
+export const CHAT_STREAM_PROTOCOL_VERSION = 1;
+export const CHAT_STREAM_VERSION_HEADER = "X-Chat-Protocol-Version";
+
+export interface ChatUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export type ChatStreamEvent =
+  | { type: "tool_call.approval"; toolCall: ToolCallInfo } // Waiting for the user (POST /api/chat/approvals)
+  | { type: "tool_call.start"; toolCall: ToolCallInfo }
+  | { type: "tool_call.progress"; toolCallId: string; progress: ToolCallProgress }
+  | { type: "tool_call.elicitation"; toolCall: ToolCallInfo } // toolCall.elicitation set: answer via POST /api/chat/elicitations; cleared once answered
+  | { type: "tool_call.result"; toolCall: ToolCallInfo }
+  | { type: "text.delta"; text: string }
+  | { type: "error"; message: string }
+  | { type: "usage"; usage: ChatUsage }
+  | { type: "context.summarized"; summary: SessionSummary }
+  | { type: "done" };
+
+export type ChatStreamEventType = ChatStreamEvent["type"];
+
+/**
+ * Serialize an event as an SSE message
+ * The payload is JSON, so text containing newlines or markers can't break framing
+ */
+export function encodeChatEvent(event: ChatStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Incremental SSE parser
+ * Feed decoded chunks with push(); complete events are delivered once, in order
+ */
+export function createChatEventParser(onEvent: (event: ChatStreamEvent) => void) {
+  let buffer = "";
+
+  const dispatch = (block: string) => {
+    const data = block
+      .split("\n")
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).replace(/^ /, ""))
+      .join("\n");
+
+    if (!data) return;
+
+    try {
+      onEvent(JSON.parse(data) as ChatStreamEvent);
+    } catch (e) {
+      console.error("Failed to parse chat event:", e, data);
+    }
+  };
+
+  return {
+    push(chunk: string) {
+      buffer += chunk.replace(/\r\n?/g, "\n");
+
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        dispatch(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf("\n\n");
+      }
+    },
+
+    // Deliver a trailing event that was not followed by a blank line
+    flush() {
+      if (buffer.trim()) {
+        dispatch(buffer);
+      }
+      buffer = "";
+    },
+  };
+}
+
+// Accumulated view of a chat stream, as rendered by the chat UI
+export interface ChatStreamState {
+  text: string;
+  toolCalls: ToolCallInfo[];
+  error?: string;
+  usage?: ChatUsage;
+  contextSummary?: SessionSummary; // Set when earlier turns were folded this request
+  stopped?: boolean; // The user stopped generation
+  done: boolean;
+}
+
+export function createChatStreamState(): ChatStreamState {
+  return { text: "", toolCalls: [], done: false };
+}
+
+/**
+ * Final state of a stream the user stopped
+ * Unfinished tool calls are closed so they don't render as still running
+ */
+export function stopChatStreamState(state: ChatStreamState): ChatStreamState {
+  const stoppedAt = Date.now();
+  return {
+    ...state,
+    stopped: true,
+    done: true,
+    toolCalls: state.toolCalls.map((tc): ToolCallInfo => {
+      if (tc.status === "calling") {
+        return { ...tc, status: "error", error: "Stopped by the user", elicitation: undefined, completedAt: stoppedAt };
+      }
+      if (tc.status === "pending_approval") {
+        return { ...tc, status: "rejected", error: "Stopped by the user", completedAt: stoppedAt };
+      }
+      return tc;
+    }),
+  };
+}
+
+/**
+ * Apply one event to the stream state (returns a new state object)
+ */
+export function applyChatEvent(state: ChatStreamState, event: ChatStreamEvent): ChatStreamState {
+  switch (event.type) {
+    case "text.delta":
+      return { ...state, text: state.text + event.text };
+
+    case "tool_call.approval":
+    case "tool_call.elicitation":
+    case "tool_call.start":
+    case "tool_call.result": {
+      const index = state.toolCalls.findIndex((tc) => tc.id === event.toolCall.id);
+      const toolCalls = [...state.toolCalls];
+      if (index >= 0) {
+        toolCalls[index] = event.toolCall;
+      } else {
+        toolCalls.push(event.toolCall);
+      }
+      return { ...state, toolCalls };
+    }
+
+    case "tool_call.progress":
+      return {
+        ...state,
+        toolCalls: state.toolCalls.map((tc) =>
+          tc.id === event.toolCallId ? { ...tc, progress: event.progress } : tc
+        ),
+      };
+
+    case "error":
+      return {
+        ...state,
+        error: event.message,
+        text: `${state.text}${state.text ? "\n\n" : ""}Error generating response: ${event.message}`,
+      };
+
+    case "usage":
+      return { ...state, usage: event.usage };
+
+    case "context.summarized":
+      return { ...state, contextSummary: event.summary };
+
+    case "done":
+      return { ...state, done: true };
+
+    default:
+      return state;
+  }
+}
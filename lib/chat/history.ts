@@ -0,0 +1,154 @@
+// Chat History Composition (server-only)
+// Rebuilds tool call / tool result turns from stored ToolCallInfo so the model remembers them
+
+import { getToolFunctionName, type LLMMessage, type LLMToolResult } from "@/lib/llm";
+import type { ToolCallInfo } from "@/lib/mcp/types";
+
+// Message shape the chat UI sends to /api/chat
+export interface ChatHistoryMessage {
+  role: "user" | "assistant";
+  content: string;
+  toolCalls?: ToolCallInfo[];
+}
+
+export interface HistoryBudget {
+  resultCharLimit: number; // Max characters for a single past tool result
+  totalResultChars: number; // Max characters for all past tool results together
+}
+
+export const DEFAULT_HISTORY_BUDGET: HistoryBudget = {
+  resultCharLimit: 4000,
+  totalResultChars: 24000,
+};
+
+// Length of the preview kept once the overall budget is used up
+const SUMMARY_PREVIEW_CHARS = 200;
+
+interface MCPContentItem {
+  type?: string;
+  text?: string;
+  mimeType?: string;
+  storageUrl?: string;
+  data?: string;
+}
+
+// Drop inline image data; the model only needs to know an image was returned
+function stripImageData(result: unknown): unknown {
+  const content = (result as { content?: MCPContentItem[] } | null)?.content;
+  if (!Array.isArray(content)) return result;
+
+  return {
+    ...(result as Record<string, unknown>),
+    content: content.map((item) =>
+      item.type === "image"
+        ? { type: "image", mimeType: item.mimeType, storageUrl: item.storageUrl, note: "image data omitted" }
+        : item
+    ),
+  };
+}
+
+// Plain text view of a result, preferring MCP text content
+function resultText(result: unknown): string {
+  const content = (result as { content?: MCPContentItem[] } | null)?.content;
+  if (Array.isArray(content)) {
+    const texts = content.filter((item) => item.type === "text" && item.text).map((item) => item.text);
+    if (texts.length > 0) return texts.join("\n");
+  }
+  return typeof result === "string" ? result : JSON.stringify(result);
+}
+
+/**
+ * Fit a past tool result into the given number of characters
+ * Small results are kept as-is; larger ones are truncated, and with no room left only a summary remains
+ */
+function compactResult(result: unknown, limit: number): unknown {
+  const stripped = stripImageData(result);
+  const serialized = JSON.stringify(stripped) ?? "";
+
+  if (serialized.length <= limit) {
+    return stripped;
+  }
+
+  const text = resultText(stripped);
+  if (limit >= SUMMARY_PREVIEW_CHARS * 2) {
+    return {
+      truncated: true,
+      originalLength: serialized.length,
+      text: text.slice(0, limit),
+    };
+  }
+
+  return {
+    summary: `Earlier result omitted to save context (${serialized.length} characters)`,
+    preview: text.slice(0, SUMMARY_PREVIEW_CHARS),
+  };
+}
+
+function toToolResult(toolCall: ToolCallInfo, callName: string, limit: number): LLMToolResult {
+  if (toolCall.status === "success") {
+    return { callId: toolCall.id, name: callName, result: compactResult(toolCall.result, limit) };
+  }
+
+  return {
+    callId: toolCall.id,
+    name: callName,
+    result: {
+      error:
+        toolCall.status === "error" || toolCall.status === "rejected"
+          ? toolCall.error ?? "Unknown error"
+          : "Tool call did not complete",
+    },
+    isError: true,
+  };
+}
+
+/**
+ * Convert UI messages into provider-neutral history
+ * An assistant message with tool calls becomes: tool calls -> tool results -> final text.
+ * Newer results get their full per-result limit first; older ones shrink once the total budget runs out.
+ */
+export function composeHistory(
+  messages: ChatHistoryMessage[],
+  budget: HistoryBudget = DEFAULT_HISTORY_BUDGET
+): LLMMessage[] {
+  // Assign character limits newest-first
+  const limits = new Map<string, number>();
+  let remaining = budget.totalResultChars;
+  for (const msg of [...messages].reverse()) {
+    for (const toolCall of [...(msg.toolCalls ?? [])].reverse()) {
+      const limit = Math.max(0, Math.min(budget.resultCharLimit, remaining));
+      limits.set(toolCall.id, limit);
+      remaining -= limit;
+    }
+  }
+
+  const history: LLMMessage[] = [];
+
+  for (const msg of messages) {
+    if (msg.role === "user") {
+      history.push({ role: "user", text: msg.content });
+      continue;
+    }
+
+    const toolCalls = msg.toolCalls ?? [];
+    if (toolCalls.length > 0) {
+      const calls = toolCalls.map((toolCall) => ({
+        id: toolCall.id,
+        name: toolCall.functionName ?? getToolFunctionName(toolCall.serverName ?? toolCall.serverId, toolCall.toolName),
+        arguments: toolCall.arguments ?? {},
+      }));
+
+      history.push({ role: "assistant", text: "", toolCalls: calls });
+      history.push({
+        role: "tool",
+        results: toolCalls.map((toolCall, i) => toToolResult(toolCall, calls[i].name, limits.get(toolCall.id) ?? 0)),
+      });
+    }
+
+    if (msg.content) {
+      history.push({ role: "assistant", text: msg.content });
+    }
+  }
+
+  return history;
+}
@@ -0,0 +1,187 @@
+import { assertOk, collectChat, parseToolArguments, readSSE } from "./stream";
+import type {
+  LLMChatRequest,
+  LLMMessage,
+  LLMProvider,
+  LLMStreamChunk,
+  LLMToolConversion,
+  LLMToolDefinition,
+} from "./types";
+
+const ANTHROPIC_API_URL = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_VERSION = "2023-06-01";
+const DEFAULT_MAX_TOKENS = 4096;
+
+interface AnthropicTool {
+  name: string;
+  description: string;
+  input_schema: Record<string, unknown>;
+}
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | { type: "tool_use"; id: string; name: string; input: Record<string, unknown> }
+  | { type: "tool_result"; tool_use_id: string; content: string; is_error?: boolean };
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: AnthropicContentBlock[];
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  index?: number;
+  message?: { usage?: { input_tokens?: number; output_tokens?: number } };
+  content_block?: { type: string; id?: string; name?: string };
+  delta?: { type?: string; text?: string; partial_json?: string };
+  usage?: { output_tokens?: number };
+  error?: { message?: string };
+}
+
+// Map neutral messages to Messages API turns
+function toAnthropicMessages(messages: LLMMessage[]): AnthropicMessage[] {
+  return messages.map((msg): AnthropicMessage => {
+    switch (msg.role) {
+      case "user":
+        return { role: "user", content: [{ type: "text", text: msg.text }] };
+
+      case "assistant": {
+        const content: AnthropicContentBlock[] = [];
+        if (msg.text) {
+          content.push({ type: "text", text: msg.text });
+        }
+        for (const call of msg.toolCalls ?? []) {
+          content.push({ type: "tool_use", id: call.id, name: call.name, input: call.arguments });
+        }
+        return { role: "assistant", content };
+      }
+
+      case "tool":
+        return {
+          role: "user",
+          content: msg.results.map((r) => ({
+            type: "tool_result",
+            tool_use_id: r.callId,
+            content: typeof r.result === "string" ? r.result : JSON.stringify(r.result),
+            is_error: r.isError || undefined,
+          })),
+        };
+    }
+  });
+}
+
+/**
+ * Anthropic adapter (Messages API)
+ */
+export function createAnthropicProvider(apiKey: string): LLMProvider<AnthropicTool[]> {
+  async function* streamChat(request: LLMChatRequest<AnthropicTool[]>): AsyncGenerator<LLMStreamChunk> {
+    const response = await fetch(ANTHROPIC_API_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: request.model,
+        system: request.system,
+        messages: toAnthropicMessages(request.messages),
+        tools: request.tools?.length ? request.tools : undefined,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        stream: true,
+      }),
+      signal: request.signal,
+    });
+
+    await assertOk(response, "Anthropic");
+
+    // tool_use blocks stream their input as partial JSON until content_block_stop
+    const toolBlocks = new Map<number, { id: string; name: string; json: string }>();
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for await (const message of readSSE(response)) {
+      let event: AnthropicStreamEvent;
+      try {
+        event = JSON.parse(message.data);
+      } catch {
+        continue;
+      }
+
+      switch (event.type) {
+        case "message_start":
+          inputTokens = event.message?.usage?.input_tokens ?? 0;
+          outputTokens = event.message?.usage?.output_tokens ?? 0;
+          break;
+
+        case "content_block_start":
+          if (event.content_block?.type === "tool_use" && event.index !== undefined) {
+            toolBlocks.set(event.index, {
+              id: event.content_block.id ?? "",
+              name: event.content_block.name ?? "",
+              json: "",
+            });
+          }
+          break;
+
+        case "content_block_delta":
+          if (event.delta?.type === "text_delta" && event.delta.text) {
+            yield { type: "text", text: event.delta.text };
+          } else if (event.delta?.type === "input_json_delta" && event.index !== undefined) {
+            const block = toolBlocks.get(event.index);
+            if (block) block.json += event.delta.partial_json ?? "";
+          }
+          break;
+
+        case "content_block_stop": {
+          const block = event.index !== undefined ? toolBlocks.get(event.index) : undefined;
+          if (block) {
+            toolBlocks.delete(event.index!);
+            yield {
+              type: "tool_call",
+              call: { id: block.id, name: block.name, arguments: parseToolArguments(block.json) },
+            };
+          }
+          break;
+        }
+
+        case "message_delta":
+          outputTokens = event.usage?.output_tokens ?? outputTokens;
+          break;
+
+        case "error":
+          throw new Error(`Anthropic stream error: ${event.error?.message ?? "Unknown error"}`);
+      }
+    }
+
+    yield {
+      type: "usage",
+      usage: {
+        promptTokens: inputTokens,
+        completionTokens: outputTokens,
+        totalTokens: inputTokens + outputTokens,
+      },
+    };
+  }
+
+  return {
+    id: "anthropic",
+    defaultModel: "claude-sonnet-4-0",
+    models: ["claude-sonnet-4-0", "claude-opus-4-0", "claude-3-5-haiku-latest"],
+
+    // The Messages API accepts JSON Schema as-is
+    convertTools(tools: LLMToolDefinition[]): LLMToolConversion<AnthropicTool[]> {
+      return {
+        tools: tools.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.parameters,
+        })),
+        warnings: [],
+      };
+    },
+
+    chat: (request) => collectChat(streamChat(request)),
+    streamChat,
+  };
+}
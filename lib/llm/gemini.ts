@@ -0,0 +1,150 @@
+import { GoogleGenAI } from "@google/genai";
+import type {
+  Content,
+  FunctionDeclaration,
+  GenerateContentConfig,
+  GenerateContentResponseUsageMetadata,
+  Part,
+  Tool,
+} from "@google/genai";
+import { collectChat, generateCallId } from "./stream";
+import { dereferenceSchema, toGeminiSchema, type SchemaIssue } from "./schema";
+import type {
+  LLMChatRequest,
+  LLMMessage,
+  LLMProvider,
+  LLMStreamChunk,
+  LLMToolConversion,
+  LLMToolDefinition,
+} from "./types";
+
+// Map neutral messages to Gemini contents
+function toGeminiContents(messages: LLMMessage[]): Content[] {
+  return messages.map((msg): Content => {
+    switch (msg.role) {
+      case "user":
+        return { role: "user", parts: [{ text: msg.text }] };
+
+      case "assistant": {
+        const parts: Part[] = [];
+        if (msg.text) {
+          parts.push({ text: msg.text });
+        }
+        for (const call of msg.toolCalls ?? []) {
+          parts.push({
+            functionCall: { id: call.id, name: call.name, args: call.arguments },
+            thoughtSignature: call.providerData?.thoughtSignature as string | undefined,
+          });
+        }
+        return { role: "model", parts };
+      }
+
+      case "tool":
+        // All tool results go back to the model in a single user turn
+        return {
+          role: "user",
+          parts: msg.results.map((r) => ({
+            functionResponse: {
+              id: r.callId,
+              name: r.name,
+              // functionResponse.response must be an object
+              response:
+                r.result && typeof r.result === "object" && !Array.isArray(r.result)
+                  ? (r.result as Record<string, unknown>)
+                  : { output: r.result },
+            },
+          })),
+        };
+    }
+  });
+}
+
+/**
+ * Gemini adapter (@google/genai)
+ */
+export function createGeminiProvider(apiKey: string): LLMProvider<Tool[]> {
+  const ai = new GoogleGenAI({ apiKey });
+
+  async function* streamChat(request: LLMChatRequest<Tool[]>): AsyncGenerator<LLMStreamChunk> {
+    const config: GenerateContentConfig = {
+      systemInstruction: request.system,
+      maxOutputTokens: request.maxTokens,
+      abortSignal: request.signal,
+    };
+    if (request.tools && request.tools.length > 0) {
+      config.tools = request.tools;
+    }
+
+    const responseStream = await ai.models.generateContentStream({
+      model: request.model,
+      contents: toGeminiContents(request.messages),
+      config,
+    });
+
+    let usage: GenerateContentResponseUsageMetadata | undefined;
+
+    for await (const chunk of responseStream) {
+      // Usage is cumulative within a stream; keep the latest report
+      usage = chunk.usageMetadata ?? usage;
+
+      for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+        if (part.text && !part.thought) {
+          yield { type: "text", text: part.text };
+        }
+
+        if (part.functionCall) {
+          yield {
+            type: "tool_call",
+            call: {
+              id: part.functionCall.id || generateCallId(),
+              name: part.functionCall.name || "",
+              arguments: part.functionCall.args ?? {},
+              providerData: part.thoughtSignature
+                ? { thoughtSignature: part.thoughtSignature }
+                : undefined,
+            },
+          };
+        }
+      }
+    }
+
+    if (usage) {
+      yield {
+        type: "usage",
+        usage: {
+          promptTokens: usage.promptTokenCount ?? 0,
+          completionTokens: usage.candidatesTokenCount ?? 0,
+          totalTokens: usage.totalTokenCount ?? 0,
+        },
+      };
+    }
+  }
+
+  return {
+    id: "gemini",
+    defaultModel: "gemini-2.0-flash-001",
+    models: ["gemini-2.0-flash-001", "gemini-2.5-flash", "gemini-2.5-pro"],
+
+    convertTools(tools: LLMToolDefinition[]): LLMToolConversion<Tool[]> {
+      if (tools.length === 0) return { tools: [], warnings: [] };
+
+      const warnings: string[] = [];
+      const functionDeclarations: FunctionDeclaration[] = tools.map((tool) => {
+        const issues: SchemaIssue[] = [];
+        const parameters = toGeminiSchema(dereferenceSchema(tool.parameters, issues), issues);
+        warnings.push(...issues.map((issue) => `${tool.name} ${issue.path}: ${issue.message}`));
+
+        return {
+          name: tool.name,
+          description: tool.description,
+          parameters,
+        };
+      });
+
+      return { tools: [{ functionDeclarations }], warnings };
+    },
+
+    chat: (request) => collectChat(streamChat(request)),
+    streamChat,
+  };
+}
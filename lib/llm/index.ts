@@ -0,0 +1,114 @@
+// LLM Provider Module Exports (server-only)
+// Selects a provider per request or from LLM_PROVIDER / LLM_MODEL env vars
+
+import { createGeminiProvider } from "./gemini";
+import { createOpenAIProvider } from "./openai";
+import { createAnthropicProvider } from "./anthropic";
+import { createMockProvider } from "./mock";
+import type { LLMProvider, LLMProviderId, LLMSelection } from "./types";
+
+export * from "./types";
+export { buildToolDefinitions, getToolFunctionName, resolveToolName } from "./tools";
+export type { MCPToolWithServerId, ToolTarget } from "./tools";
+
+const PROVIDER_IDS: LLMProviderId[] = ["gemini", "openai", "anthropic", "mock"];
+
+export function isLLMProviderId(value: unknown): value is LLMProviderId {
+  return typeof value === "string" && PROVIDER_IDS.includes(value as LLMProviderId);
+}
+
+// Guess the provider from a model name when none is given explicitly
+function inferProvider(model: string | undefined): LLMProviderId | undefined {
+  if (!model) return undefined;
+  if (model.startsWith("gemini")) return "gemini";
+  if (model.startsWith("claude")) return "anthropic";
+  if (/^(gpt|o\d)/.test(model)) return "openai";
+  if (model === "mock") return "mock";
+  return undefined;
+}
+
+function createProvider(id: LLMProviderId): LLMProvider {
+  switch (id) {
+    case "gemini": {
+      const apiKey = process.env.GEMINI_API_KEY;
+      if (!apiKey) throw new Error("GEMINI_API_KEY is not set");
+      return createGeminiProvider(apiKey) as LLMProvider;
+    }
+
+    case "openai": {
+      const baseUrl = process.env.OPENAI_BASE_URL || "https://api.openai.com/v1";
+      const apiKey = process.env.OPENAI_API_KEY;
+      // Local OpenAI-compatible servers (Ollama, llama.cpp) usually need no key
+      if (!apiKey && !process.env.OPENAI_BASE_URL) {
+        throw new Error("OPENAI_API_KEY or OPENAI_BASE_URL is not set");
+      }
+      return createOpenAIProvider({ apiKey, baseUrl }) as LLMProvider;
+    }
+
+    case "anthropic": {
+      const apiKey = process.env.ANTHROPIC_API_KEY;
+      if (!apiKey) throw new Error("ANTHROPIC_API_KEY is not set");
+      return createAnthropicProvider(apiKey) as LLMProvider;
+    }
+
+    case "mock":
+      // Offline scripted replies (LLM_MOCK_FIXTURE = path to a fixture JSON)
+      return createMockProvider({
+        fixtureFile: process.env.LLM_MOCK_FIXTURE,
+        delayMs: Number(process.env.LLM_MOCK_DELAY_MS) || 0,
+      }) as LLMProvider;
+  }
+}
+
+/**
+ * Resolve the provider and model for a request
+ * Priority: request selection > LLM_PROVIDER / LLM_MODEL > Gemini default
+ * Throws if the chosen provider is not configured
+ */
+export function resolveLLM(selection: LLMSelection = {}): { provider: LLMProvider; model: string } {
+  const envProvider = isLLMProviderId(process.env.LLM_PROVIDER) ? process.env.LLM_PROVIDER : undefined;
+  const envModel = process.env.LLM_MODEL || undefined;
+
+  const providerId =
+    selection.provider ??
+    inferProvider(selection.model) ??
+    envProvider ??
+    inferProvider(envModel) ??
+    "gemini";
+
+  const provider = createProvider(providerId);
+
+  // Only reuse LLM_MODEL when it belongs to the selected provider
+  const envModelMatches = envModel && (envProvider ?? inferProvider(envModel)) === providerId;
+  const model = selection.model ?? (envModelMatches ? envModel : provider.defaultModel);
+
+  return { provider, model };
+}
+
+/**
+ * Resolve a provider and model from MCP sampling model hints
+ * Each hint (in order) is matched as a substring of the configured providers' known models,
+ * or used as-is when it is a full model name of a configured provider;
+ * without a match the default selection applies
+ */
+export function resolveLLMFromHints(hints: string[] = []): { provider: LLMProvider; model: string } {
+  const configured = PROVIDER_IDS.filter((id) => id !== "mock").flatMap((id) => {
+    try {
+      return [createProvider(id)];
+    } catch {
+      return [];
+    }
+  });
+
+  for (const hint of hints) {
+    const name = hint.toLowerCase();
+    for (const provider of configured) {
+      const model =
+        provider.models.find((m) => m.includes(name)) ??
+        (inferProvider(name) === provider.id ? name : undefined);
+      if (model) return { provider, model };
+    }
+  }
+
+  return resolveLLM();
+}
@@ -0,0 +1,158 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { collectChat } from "./stream";
+import type {
+  LLMChatRequest,
+  LLMMessage,
+  LLMProvider,
+  LLMStreamChunk,
+  LLMToolDefinition,
+} from "./types";
+
+// Fixture format (see fixtures/mock-llm/*.json)
+export interface MockFixtureStep {
+  text?: string;
+  toolCalls?: Array<{
+    tool: string; // MCP tool name or generated function name
+    args?: Record<string, unknown>;
+  }>;
+}
+
+export interface MockFixtureConversation {
+  match?: string; // Regex tested against the latest user message
+  steps: MockFixtureStep[];
+}
+
+export interface MockFixture {
+  conversations: MockFixtureConversation[];
+  fallback?: MockFixtureConversation;
+}
+
+// Used when LLM_MOCK_FIXTURE is not set: echo the user message
+const DEFAULT_FIXTURE: MockFixture = {
+  conversations: [],
+  fallback: { steps: [{ text: "Mock reply: {{lastUserMessage}}" }] },
+};
+
+function loadFixture(file: string | undefined): MockFixture {
+  if (!file) return DEFAULT_FIXTURE;
+
+  const fullPath = path.resolve(process.cwd(), file);
+  try {
+    return JSON.parse(readFileSync(fullPath, "utf-8")) as MockFixture;
+  } catch (error) {
+    throw new Error(
+      `Failed to load mock LLM fixture ${fullPath}: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
+
+// Text of a tool result, preferring MCP text content
+function describeResult(result: unknown): string {
+  const content = (result as { content?: Array<{ type?: string; text?: string }> } | null)?.content;
+  if (Array.isArray(content)) {
+    const texts = content.filter((c) => c.type === "text" && c.text).map((c) => c.text);
+    if (texts.length > 0) return texts.join("\n");
+  }
+  return typeof result === "string" ? result : JSON.stringify(result);
+}
+
+function fillTemplate(text: string, messages: LLMMessage[]): string {
+  const lastUser = [...messages].reverse().find((m) => m.role === "user");
+  const lastTool = [...messages].reverse().find((m) => m.role === "tool");
+
+  return text
+    .replace(/\{\{lastUserMessage\}\}/g, lastUser?.role === "user" ? lastUser.text : "")
+    .replace(
+      /\{\{lastToolResult\}\}/g,
+      lastTool?.role === "tool" ? lastTool.results.map((r) => describeResult(r.result)).join("\n") : ""
+    );
+}
+
+// Resolve a fixture tool reference to one of the declared function names
+function resolveFixtureTool(tool: string, definitions: LLMToolDefinition[]): string {
+  const exact = definitions.find((d) => d.name === tool);
+  if (exact) return exact.name;
+
+  // Generated names are "<server>__<tool>", optionally followed by a hash suffix
+  const sanitized = tool.replace(/[^a-zA-Z0-9_-]/g, "_");
+  const pattern = new RegExp(`__${sanitized}(_[0-9a-f]{8})?$`);
+  const suffixed = definitions.find((d) => pattern.test(d.name));
+  return suffixed?.name ?? tool;
+}
+
+// Split text into word-sized deltas so the UI streams like a real model
+function toDeltas(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) ?? [];
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Deterministic mock adapter for offline development
+ * Replays fixture conversations: the step is the number of model turns since the last user message
+ */
+export function createMockProvider(options: {
+  fixtureFile?: string;
+  delayMs?: number;
+}): LLMProvider<LLMToolDefinition[]> {
+  const fixture = loadFixture(options.fixtureFile);
+  const delayMs = options.delayMs ?? 0;
+
+  async function* streamChat(request: LLMChatRequest<LLMToolDefinition[]>): AsyncGenerator<LLMStreamChunk> {
+    const lastUserIndex = request.messages.map((m) => m.role).lastIndexOf("user");
+    const lastUser = request.messages[lastUserIndex];
+    const userText = lastUser?.role === "user" ? lastUser.text : "";
+    const stepIndex = request.messages
+      .slice(lastUserIndex + 1)
+      .filter((m) => m.role === "assistant").length;
+
+    const conversation =
+      fixture.conversations.find((c) => !c.match || new RegExp(c.match, "i").test(userText)) ??
+      fixture.fallback;
+    const step: MockFixtureStep = conversation?.steps[stepIndex] ?? {
+      text: "[mock] No scripted response for this turn",
+    };
+
+    let outputChars = 0;
+
+    for (const delta of toDeltas(fillTemplate(step.text ?? "", request.messages))) {
+      request.signal?.throwIfAborted();
+      if (delayMs > 0) await sleep(delayMs);
+      outputChars += delta.length;
+      yield { type: "text", text: delta };
+    }
+
+    for (const [index, call] of (step.toolCalls ?? []).entries()) {
+      yield {
+        type: "tool_call",
+        call: {
+          id: `mock_call_${stepIndex}_${index}`,
+          name: resolveFixtureTool(call.tool, request.tools ?? []),
+          arguments: call.args ?? {},
+        },
+      };
+    }
+
+    // Rough estimate (~4 chars per token) so usage events are exercised too
+    const promptChars = JSON.stringify(request.messages).length + (request.system?.length ?? 0);
+    const promptTokens = Math.ceil(promptChars / 4);
+    const completionTokens = Math.ceil(outputChars / 4);
+    yield {
+      type: "usage",
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+    };
+  }
+
+  return {
+    id: "mock",
+    defaultModel: "mock",
+    models: ["mock"],
+
+    // Keep the neutral definitions so fixtures can refer to tools by MCP name
+    convertTools: (tools) => ({ tools, warnings: [] }),
+
+    chat: (request) => collectChat(streamChat(request)),
+    streamChat,
+  };
+}
@@ -0,0 +1,205 @@
+import { assertOk, collectChat, generateCallId, parseToolArguments, readSSE } from "./stream";
+import type {
+  LLMChatRequest,
+  LLMMessage,
+  LLMProvider,
+  LLMStreamChunk,
+  LLMToolConversion,
+  LLMToolDefinition,
+} from "./types";
+
+interface OpenAITool {
+  type: "function";
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+type OpenAIMessage =
+  | { role: "system" | "user"; content: string }
+  | {
+      role: "assistant";
+      content: string | null;
+      tool_calls?: Array<{
+        id: string;
+        type: "function";
+        function: { name: string; arguments: string };
+      }>;
+    }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+interface OpenAIStreamChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  } | null;
+}
+
+// Map neutral messages to chat completions messages
+function toOpenAIMessages(system: string | undefined, messages: LLMMessage[]): OpenAIMessage[] {
+  const result: OpenAIMessage[] = system ? [{ role: "system", content: system }] : [];
+
+  for (const msg of messages) {
+    switch (msg.role) {
+      case "user":
+        result.push({ role: "user", content: msg.text });
+        break;
+
+      case "assistant":
+        result.push({
+          role: "assistant",
+          content: msg.text || null,
+          tool_calls: msg.toolCalls?.length
+            ? msg.toolCalls.map((call) => ({
+                id: call.id,
+                type: "function",
+                function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+              }))
+            : undefined,
+        });
+        break;
+
+      case "tool":
+        // One tool message per call result
+        for (const r of msg.results) {
+          result.push({
+            role: "tool",
+            tool_call_id: r.callId,
+            content: typeof r.result === "string" ? r.result : JSON.stringify(r.result),
+          });
+        }
+        break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * OpenAI-compatible adapter (/chat/completions)
+ * Works with OpenAI and local servers that mirror the API (Ollama, llama.cpp, vLLM)
+ */
+export function createOpenAIProvider(options: {
+  apiKey?: string;
+  baseUrl: string;
+}): LLMProvider<OpenAITool[]> {
+  const baseUrl = options.baseUrl.replace(/\/+$/, "");
+
+  async function* streamChat(request: LLMChatRequest<OpenAITool[]>): AsyncGenerator<LLMStreamChunk> {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: toOpenAIMessages(request.system, request.messages),
+        tools: request.tools?.length ? request.tools : undefined,
+        max_tokens: request.maxTokens,
+        stream: true,
+        stream_options: { include_usage: true },
+      }),
+      signal: request.signal,
+    });
+
+    await assertOk(response, "OpenAI-compatible");
+
+    // Tool call arguments arrive as string fragments keyed by index
+    const pendingCalls = new Map<number, { id: string; name: string; args: string }>();
+
+    function* drainCalls(): Generator<LLMStreamChunk> {
+      for (const pending of pendingCalls.values()) {
+        yield {
+          type: "tool_call",
+          call: {
+            id: pending.id || generateCallId(),
+            name: pending.name,
+            arguments: parseToolArguments(pending.args),
+          },
+        };
+      }
+      pendingCalls.clear();
+    }
+
+    for await (const message of readSSE(response)) {
+      if (message.data === "[DONE]") break;
+
+      let chunk: OpenAIStreamChunk;
+      try {
+        chunk = JSON.parse(message.data);
+      } catch {
+        continue;
+      }
+
+      const choice = chunk.choices?.[0];
+      if (choice?.delta?.content) {
+        yield { type: "text", text: choice.delta.content };
+      }
+
+      for (const delta of choice?.delta?.tool_calls ?? []) {
+        const pending = pendingCalls.get(delta.index) ?? { id: "", name: "", args: "" };
+        pending.id = delta.id || pending.id;
+        pending.name += delta.function?.name ?? "";
+        pending.args += delta.function?.arguments ?? "";
+        pendingCalls.set(delta.index, pending);
+      }
+
+      if (choice?.finish_reason) {
+        yield* drainCalls();
+      }
+
+      if (chunk.usage) {
+        yield {
+          type: "usage",
+          usage: {
+            promptTokens: chunk.usage.prompt_tokens ?? 0,
+            completionTokens: chunk.usage.completion_tokens ?? 0,
+            totalTokens: chunk.usage.total_tokens ?? 0,
+          },
+        };
+      }
+    }
+
+    // Some compatible servers end the stream without a finish_reason
+    yield* drainCalls();
+  }
+
+  return {
+    id: "openai",
+    defaultModel: "gpt-4o-mini",
+    models: ["gpt-4o-mini", "gpt-4o", "gpt-4.1-mini", "gpt-4.1", "o4-mini"],
+
+    // Chat completions accept JSON Schema as-is
+    convertTools(tools: LLMToolDefinition[]): LLMToolConversion<OpenAITool[]> {
+      return {
+        tools: tools.map((tool) => ({
+          type: "function",
+          function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters,
+          },
+        })),
+        warnings: [],
+      };
+    },
+
+    chat: (request) => collectChat(streamChat(request)),
+    streamChat,
+  };
+}
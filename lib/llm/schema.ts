@@ -0,0 +1,290 @@
+import { Type } from "@google/genai";
+import type { Schema } from "@google/genai";
+
+// JSON Schema -> provider schema translation
+// Unsupported constructs degrade to the closest supported shape and are reported as issues
+
+type JsonSchema = Record<string, unknown>;
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+// Nesting limit when inlining recursive $refs
+const MAX_REF_DEPTH = 3;
+
+// Keywords whose value maps names to subschemas
+const SCHEMA_MAP_KEYS = new Set(["properties", "patternProperties", "dependentSchemas"]);
+// Keywords whose value is data, not a schema
+const DATA_KEYS = new Set(["enum", "const", "default", "examples", "example"]);
+
+const isObject = (value: unknown): value is JsonSchema =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const formatPath = (path: string) => path || "(root)";
+
+const omit = (node: JsonSchema, ...keys: string[]): JsonSchema =>
+  Object.fromEntries(Object.entries(node).filter(([key]) => !keys.includes(key)));
+
+// Follow a local JSON pointer ("#/$defs/Item") within the root schema
+function lookupRef(root: JsonSchema, ref: string): JsonSchema | null {
+  if (!ref.startsWith("#")) return null;
+
+  let node: unknown = root;
+  for (const segment of ref.slice(1).split("/").filter(Boolean)) {
+    const key = decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~");
+    if (!isObject(node)) return null;
+    node = node[key];
+  }
+  return isObject(node) ? node : null;
+}
+
+/**
+ * Inline local $refs so the schema is self-contained
+ * Recursive refs are cut off after MAX_REF_DEPTH levels; remote refs are dropped
+ */
+export function dereferenceSchema(root: JsonSchema, issues: SchemaIssue[]): JsonSchema {
+  const visit = (node: unknown, path: string, refStack: string[]): unknown => {
+    if (Array.isArray(node)) {
+      return node.map((item, i) => visit(item, `${path}[${i}]`, refStack));
+    }
+    if (!isObject(node)) return node;
+
+    if (typeof node.$ref === "string") {
+      const { $ref: ref, ...siblings } = node;
+      const target = lookupRef(root, ref as string);
+
+      if (!target) {
+        issues.push({ path: formatPath(path), message: `unresolved $ref "${ref}" replaced with an untyped value` });
+        return visit(siblings, path, refStack);
+      }
+
+      if (refStack.includes(ref as string) && refStack.length >= MAX_REF_DEPTH) {
+        issues.push({ path: formatPath(path), message: `recursive $ref "${ref}" truncated to a plain object` });
+        return {
+          type: "object",
+          description: (siblings.description ?? target.description) as string | undefined,
+        };
+      }
+
+      return visit({ ...target, ...siblings }, path, [...refStack, ref as string]);
+    }
+
+    const result: JsonSchema = {};
+    for (const [key, value] of Object.entries(node)) {
+      // Definitions are inlined where referenced
+      if (key === "$defs" || key === "definitions") continue;
+
+      const keyPath = path ? `${path}.${key}` : key;
+      if (DATA_KEYS.has(key)) {
+        result[key] = value;
+      } else if (SCHEMA_MAP_KEYS.has(key) && isObject(value)) {
+        // Property names are not keywords: a parameter may well be called "definitions"
+        result[key] = Object.fromEntries(
+          Object.entries(value).map(([name, schema]) => [name, visit(schema, `${keyPath}.${name}`, refStack)])
+        );
+      } else {
+        result[key] = visit(value, keyPath, refStack);
+      }
+    }
+    return result;
+  };
+
+  return visit(root, "", []) as JsonSchema;
+}
+
+// Merge allOf members into one schema (properties and required are combined)
+function mergeAllOf(node: JsonSchema): JsonSchema {
+  if (!Array.isArray(node.allOf)) return node;
+
+  const { allOf, ...rest } = node;
+  return (allOf as unknown[]).filter(isObject).reduce<JsonSchema>(
+    (merged, member) => ({
+      ...member,
+      ...merged,
+      properties: { ...(member.properties as JsonSchema), ...(merged.properties as JsonSchema) },
+      required: [
+        ...((member.required as string[]) ?? []),
+        ...((merged.required as string[]) ?? []),
+      ],
+    }),
+    rest
+  );
+}
+
+const GEMINI_TYPES: Record<string, Type> = {
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+  array: Type.ARRAY,
+  object: Type.OBJECT,
+};
+
+// Formats Gemini accepts per type; others move into the description
+const GEMINI_FORMATS: Partial<Record<Type, string[]>> = {
+  [Type.STRING]: ["enum", "date-time"],
+  [Type.NUMBER]: ["float", "double"],
+  [Type.INTEGER]: ["int32", "int64"],
+};
+
+// Keywords translated above or safe to ignore for function calling
+const HANDLED_KEYS = new Set([
+  "$schema", "$id", "$comment", "$anchor", "type", "description", "title", "nullable",
+  "enum", "const", "format", "default", "examples", "example", "items", "properties",
+  "required", "anyOf", "oneOf", "allOf", "minimum", "maximum", "minLength", "maxLength",
+  "pattern", "minItems", "maxItems", "minProperties", "maxProperties", "additionalProperties",
+  "readOnly", "writeOnly", "deprecated", "exclusiveMinimum", "exclusiveMaximum",
+]);
+
+function inferType(node: JsonSchema): string | undefined {
+  if (isObject(node.properties)) return "object";
+  if (node.items !== undefined) return "array";
+  const sample = node.const ?? (Array.isArray(node.enum) ? node.enum[0] : undefined) ?? node.default;
+  if (sample === undefined || sample === null) return undefined;
+  if (Array.isArray(sample)) return "array";
+  if (typeof sample === "number") return Number.isInteger(sample) ? "integer" : "number";
+  return typeof sample === "object" ? "object" : typeof sample;
+}
+
+/**
+ * Convert a (dereferenced) JSON Schema node into a Gemini Schema
+ */
+export function toGeminiSchema(input: JsonSchema, issues: SchemaIssue[], path = ""): Schema {
+  const node = mergeAllOf(input);
+  const notes: string[] = [];
+  const out: Schema = {};
+  const report = (message: string) => issues.push({ path: formatPath(path), message });
+
+  if (typeof node.title === "string") out.title = node.title;
+  if (node.nullable === true) out.nullable = true;
+
+  // anyOf / oneOf: null members become nullable, a single remaining member is inlined
+  const variantKey = Array.isArray(node.anyOf) ? "anyOf" : Array.isArray(node.oneOf) ? "oneOf" : null;
+  if (variantKey) {
+    const base = omit(node, "anyOf", "oneOf");
+    const variants = (node[variantKey] as unknown[]).filter(isObject);
+    const nonNull = variants.filter((v) => v.type !== "null");
+    if (nonNull.length < variants.length) out.nullable = true;
+    if (variantKey === "oneOf" && nonNull.length > 1) {
+      report("oneOf treated as anyOf (exclusivity is not enforced)");
+    }
+
+    if (nonNull.length === 1) {
+      const merged = toGeminiSchema({ ...base, ...nonNull[0] }, issues, path);
+      return out.nullable ? { ...merged, nullable: true } : merged;
+    }
+    if (nonNull.length > 1) {
+      out.anyOf = nonNull.map((v, i) => toGeminiSchema({ ...base, ...v }, issues, `${path}.${variantKey}[${i}]`));
+      if (typeof node.description === "string") out.description = node.description;
+      return out;
+    }
+  }
+
+  // type may be a list, e.g. ["string", "null"]
+  let types = Array.isArray(node.type) ? (node.type as string[]) : node.type ? [node.type as string] : [];
+  if (types.includes("null")) {
+    out.nullable = true;
+    types = types.filter((t) => t !== "null");
+  }
+  if (types.length > 1) {
+    const base = omit(node, "type");
+    out.anyOf = types.map((t, i) => toGeminiSchema({ ...base, type: t }, issues, `${path}.type[${i}]`));
+    if (typeof node.description === "string") out.description = node.description;
+    return out;
+  }
+
+  const jsonType = types[0] ?? inferType(node);
+  let type = jsonType ? GEMINI_TYPES[jsonType] : undefined;
+  if (!type) {
+    report(jsonType ? `unsupported type "${jsonType}" treated as string` : "missing type treated as string");
+    type = Type.STRING;
+  }
+  out.type = type;
+
+  // enum / const: Gemini only supports string enums
+  const enumValues = node.const !== undefined ? [node.const] : Array.isArray(node.enum) ? node.enum : null;
+  if (enumValues) {
+    if (type === Type.STRING) {
+      out.enum = enumValues.filter((v) => v !== null).map(String);
+      out.format = "enum";
+    } else {
+      notes.push(`Allowed values: ${enumValues.map((v) => JSON.stringify(v)).join(", ")}`);
+      report(`enum on ${jsonType} moved into the description`);
+    }
+  }
+
+  if (typeof node.format === "string" && !out.format) {
+    if (GEMINI_FORMATS[type]?.includes(node.format)) {
+      out.format = node.format;
+    } else {
+      notes.push(`Format: ${node.format}`);
+      report(`format "${node.format}" moved into the description`);
+    }
+  }
+
+  if (node.default !== undefined) out.default = node.default;
+  const example = node.example ?? (Array.isArray(node.examples) ? node.examples[0] : undefined);
+  if (example !== undefined) out.example = example;
+
+  // Numeric / length constraints (Gemini takes int64 counts as strings)
+  if (typeof node.minimum === "number") out.minimum = node.minimum;
+  if (typeof node.maximum === "number") out.maximum = node.maximum;
+  if (typeof node.exclusiveMinimum === "number") {
+    out.minimum = node.exclusiveMinimum;
+    notes.push(`Must be greater than ${node.exclusiveMinimum}`);
+  }
+  if (typeof node.exclusiveMaximum === "number") {
+    out.maximum = node.exclusiveMaximum;
+    notes.push(`Must be less than ${node.exclusiveMaximum}`);
+  }
+  for (const key of ["minLength", "maxLength", "minItems", "maxItems", "minProperties", "maxProperties"] as const) {
+    if (typeof node[key] === "number") out[key] = String(node[key]);
+  }
+  if (typeof node.pattern === "string") out.pattern = node.pattern;
+
+  if (type === Type.ARRAY) {
+    if (isObject(node.items)) {
+      out.items = toGeminiSchema(node.items, issues, `${path}.items`);
+    } else if (Array.isArray(node.items) && isObject(node.items[0])) {
+      report("tuple items reduced to the first item schema");
+      out.items = toGeminiSchema(node.items[0], issues, `${path}.items`);
+    } else {
+      report("array without items assumed to contain strings");
+      out.items = { type: Type.STRING };
+    }
+  }
+
+  if (type === Type.OBJECT) {
+    const properties = isObject(node.properties) ? node.properties : {};
+    out.properties = {};
+    for (const [key, value] of Object.entries(properties)) {
+      out.properties[key] = toGeminiSchema(
+        isObject(value) ? value : {},
+        issues,
+        path ? `${path}.properties.${key}` : `properties.${key}`
+      );
+    }
+
+    if (Array.isArray(node.required)) {
+      const required = [...new Set(node.required as string[])].filter((key) => key in properties);
+      if (required.length > 0) out.required = required;
+    }
+
+    if (isObject(node.additionalProperties) || node.additionalProperties === true) {
+      report("additionalProperties dropped (only declared properties are sent)");
+    }
+  }
+
+  for (const key of Object.keys(node)) {
+    if (!HANDLED_KEYS.has(key)) {
+      report(`unsupported keyword "${key}" dropped`);
+    }
+  }
+
+  const description = [node.description, ...notes].filter(Boolean).join("\n");
+  if (description) out.description = description;
+
+  return out;
+}
@@ -0,0 +1,101 @@
+// Shared streaming helpers for LLM adapters
+
+import type { LLMChatResponse, LLMStreamChunk } from "./types";
+
+export interface SSEMessage {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Read a fetch Response body as Server-Sent Events
+ */
+export async function* readSSE(response: Response): AsyncGenerator<SSEMessage> {
+  if (!response.body) {
+    throw new Error("No response body");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const parse = (block: string): SSEMessage | null => {
+    let event: string | undefined;
+    const data: string[] = [];
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith("data:")) {
+        data.push(line.slice(5).replace(/^ /, ""));
+      }
+    }
+    return data.length > 0 ? { event, data: data.join("\n") } : null;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, "\n");
+
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        const message = parse(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (message) yield message;
+        boundary = buffer.indexOf("\n\n");
+      }
+    }
+
+    const trailing = parse(buffer);
+    if (trailing) yield trailing;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Throw a readable error for a failed provider HTTP response
+ */
+export async function assertOk(response: Response, provider: string): Promise<void> {
+  if (response.ok) return;
+  const body = await response.text().catch(() => "");
+  throw new Error(`${provider} request failed (${response.status}): ${body.slice(0, 500)}`);
+}
+
+/**
+ * Build a non-streaming response by draining a stream
+ */
+export async function collectChat(stream: AsyncIterable<LLMStreamChunk>): Promise<LLMChatResponse> {
+  const response: LLMChatResponse = { text: "", toolCalls: [] };
+
+  for await (const chunk of stream) {
+    if (chunk.type === "text") {
+      response.text += chunk.text;
+    } else if (chunk.type === "tool_call") {
+      response.toolCalls.push(chunk.call);
+    } else {
+      response.usage = chunk.usage;
+    }
+  }
+
+  return response;
+}
+
+export function generateCallId(): string {
+  return `call_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+}
+
+/**
+ * Parse streamed JSON tool arguments, tolerating empty input
+ */
+export function parseToolArguments(json: string): Record<string, unknown> {
+  if (!json.trim()) return {};
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === "object" ? parsed : { value: parsed };
+  } catch {
+    console.error("Failed to parse tool arguments:", json);
+    return {};
+  }
+}
@@ -0,0 +1,109 @@
+import { createHash } from "crypto";
+import type { LLMToolDefinition } from "./types";
+
+export interface MCPToolWithServerId {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+  serverId: string;
+  serverName: string;
+}
+
+export interface ToolTarget {
+  serverId: string;
+  serverName: string;
+  toolName: string;
+}
+
+// Function names every provider accepts: [a-zA-Z0-9_-], starting with a letter or underscore, ≤ 64 chars
+const MAX_FUNCTION_NAME_LENGTH = 64;
+const HASH_LENGTH = 8;
+const SEPARATOR = "__";
+
+// Extend globalThis type for TypeScript
+declare global {
+  var __mcpToolNameRegistry: Map<string, ToolTarget> | undefined;
+}
+
+/**
+ * Reverse map from function name to MCP tool, shared across requests
+ * Names are derived from server name + tool name only, so entries never point elsewhere
+ * and functionCalls in older history keep resolving
+ */
+const toolNameRegistry = (globalThis.__mcpToolNameRegistry ??= new Map<string, ToolTarget>());
+
+const shortHash = (value: string) => createHash("sha256").update(value).digest("hex").slice(0, HASH_LENGTH);
+
+const slugify = (value: string) => value.replace(/[^a-zA-Z0-9_-]/g, "_");
+
+/**
+ * Deterministic function name for a server's tool
+ * Lossy sanitization or truncation adds a hash of the original names to stay collision-free
+ */
+function toFunctionName(serverName: string, toolName: string, disambiguator?: string): string {
+  const raw = `${serverName}${SEPARATOR}${toolName}`;
+  let base = `${slugify(serverName)}${SEPARATOR}${slugify(toolName)}`;
+  if (!/^[a-zA-Z_]/.test(base)) {
+    base = `_${base}`;
+  }
+
+  if (base === raw && base.length <= MAX_FUNCTION_NAME_LENGTH && !disambiguator) {
+    return base;
+  }
+
+  const hash = shortHash(disambiguator ? `${raw}\u0000${disambiguator}` : raw);
+  return `${base.slice(0, MAX_FUNCTION_NAME_LENGTH - HASH_LENGTH - 1)}_${hash}`;
+}
+
+/**
+ * Convert MCP tools into provider-neutral function definitions
+ * Each tool is named "<server>__<tool>" and registered for resolveToolName()
+ */
+export function buildToolDefinitions(tools: MCPToolWithServerId[]): LLMToolDefinition[] {
+  const names = tools.map((tool) => toFunctionName(tool.serverName, tool.name));
+
+  // Two servers with the same name: qualify the clashing entries by server ID
+  const counts = new Map<string, number>();
+  names.forEach((name) => counts.set(name, (counts.get(name) ?? 0) + 1));
+
+  return tools.map((tool, index) => {
+    const name =
+      counts.get(names[index])! > 1
+        ? toFunctionName(tool.serverName, tool.name, tool.serverId)
+        : names[index];
+
+    toolNameRegistry.set(name, {
+      serverId: tool.serverId,
+      serverName: tool.serverName,
+      toolName: tool.name,
+    });
+
+    // Every provider expects an object schema at the top level
+    const schema = tool.inputSchema && typeof tool.inputSchema === "object" ? tool.inputSchema : {};
+    const parameters: Record<string, unknown> = {
+      ...schema,
+      type: "object",
+      properties: (schema.properties as Record<string, unknown> | undefined) ?? {},
+    };
+
+    return {
+      name,
+      description: tool.description || tool.name,
+      parameters,
+    };
+  });
+}
+
+/**
+ * Function name for a tool outside of a full tool set (e.g. rebuilding old history)
+ */
+export function getToolFunctionName(serverName: string, toolName: string): string {
+  return toFunctionName(serverName, toolName);
+}
+
+/**
+ * Map a function name from the model back to its MCP server and tool
+ */
+export function resolveToolName(functionName: string): ToolTarget | undefined {
+  return toolNameRegistry.get(functionName);
+}
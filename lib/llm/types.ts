@@ -0,0 +1,78 @@
+// LLM Provider Types (server-only)
+// Provider-neutral conversation model used by the chat route; adapters translate it
+
+import type { ChatUsage } from "@/lib/chat/events";
+
+export type LLMProviderId = "gemini" | "openai" | "anthropic" | "mock";
+
+// A function the model may call (parameters are JSON Schema)
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  providerData?: Record<string, unknown>; // Opaque adapter data echoed back in history (e.g. Gemini thoughtSignature)
+}
+
+export interface LLMToolResult {
+  callId: string;
+  name: string;
+  result: unknown;
+  isError?: boolean;
+}
+
+export type LLMMessage =
+  | { role: "user"; text: string }
+  | { role: "assistant"; text: string; toolCalls?: LLMToolCall[] }
+  | { role: "tool"; results: LLMToolResult[] };
+
+export type LLMStreamChunk =
+  | { type: "text"; text: string }
+  | { type: "tool_call"; call: LLMToolCall }
+  | { type: "usage"; usage: ChatUsage };
+
+export interface LLMChatRequest<TTools = unknown> {
+  model: string;
+  system?: string;
+  messages: LLMMessage[];
+  tools?: TTools; // Output of the provider's convertTools()
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMChatResponse {
+  text: string;
+  toolCalls: LLMToolCall[];
+  usage?: ChatUsage;
+}
+
+// Provider-format tools plus anything the conversion had to drop or approximate
+export interface LLMToolConversion<TTools = unknown> {
+  tools: TTools;
+  warnings: string[];
+}
+
+export interface LLMProvider<TTools = unknown> {
+  id: LLMProviderId;
+  defaultModel: string;
+  models: string[]; // Well-known models, default first (for matching MCP sampling hints)
+
+  // Convert tool definitions once per request into the provider's wire format
+  convertTools(tools: LLMToolDefinition[]): LLMToolConversion<TTools>;
+
+  // Single completion (text and/or tool calls)
+  chat(request: LLMChatRequest<TTools>): Promise<LLMChatResponse>;
+
+  // Streaming completion; tool calls are yielded as soon as they are complete
+  streamChat(request: LLMChatRequest<TTools>): AsyncIterable<LLMStreamChunk>;
+}
+
+export interface LLMSelection {
+  provider?: LLMProviderId;
+  model?: string;
+}
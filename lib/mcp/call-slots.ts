@@ -0,0 +1,58 @@
+interface CallSlots {
+  active: number;
+  waiters: Array<() => void>;
+}
+
+/**
+ * Limits how many calls run at once per key (server ID)
+ */
+export class CallSlotLimiter {
+  private slots: Map<string, CallSlots> = new Map();
+
+  /**
+   * Wait for a free slot
+   * Returns a release function that hands the slot to the next waiter
+   * Rejects with the abort reason if the signal aborts while waiting
+   */
+  async acquire(key: string, limit: number, signal?: AbortSignal): Promise<() => void> {
+    signal?.throwIfAborted();
+
+    let slots = this.slots.get(key);
+    if (!slots) {
+      slots = { active: 0, waiters: [] };
+      this.slots.set(key, slots);
+    }
+
+    if (slots.active < Math.max(1, limit)) {
+      slots.active++;
+    } else {
+      // The releasing call passes its slot on, so active stays unchanged
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          slots.waiters = slots.waiters.filter((waiter) => waiter !== take);
+          reject(signal?.reason);
+        };
+        const take = () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        };
+
+        slots.waiters.push(take);
+        signal?.addEventListener("abort", onAbort, { once: true });
+      });
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+
+      const next = slots.waiters.shift();
+      if (next) {
+        next();
+      } else {
+        slots.active--;
+      }
+    };
+  }
+}
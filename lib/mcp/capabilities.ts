@@ -0,0 +1,191 @@
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import {
+  PromptListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ToolListChangedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { RequestOptions } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  MCPServerCapabilities,
+  MCPTool,
+  MCPPrompt,
+  MCPResource,
+  MCPResourceTemplate,
+} from "./types";
+
+// Safety cap on pages per list, in case a server keeps returning cursors
+const MAX_LIST_PAGES = 50;
+// Resource catalogs can be huge: list a few pages up front, the rest on demand
+const INITIAL_RESOURCE_PAGES = 5;
+
+interface ListPage<T> {
+  items: T[];
+  nextCursor?: string;
+}
+
+/**
+ * Follow nextCursor until the list is exhausted or maxPages is reached
+ * nextCursor is set when pages were left unfetched
+ */
+async function listPages<T>(
+  fetchPage: (cursor?: string) => Promise<ListPage<T>>,
+  maxPages: number
+): Promise<ListPage<T>> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+
+  for (let page = 0; page < maxPages; page++) {
+    const result = await fetchPage(cursor);
+    items.push(...result.items);
+    cursor = result.nextCursor;
+    if (!cursor) break;
+  }
+
+  return { items, nextCursor: cursor };
+}
+
+async function fetchTools(client: Client): Promise<MCPTool[]> {
+  const { items, nextCursor } = await listPages(async (cursor) => {
+    const { tools, nextCursor } = await client.listTools({ cursor });
+    return {
+      items: tools.map((t) => ({
+        name: t.name,
+        title: t.title ?? t.annotations?.title,
+        description: t.description,
+        inputSchema: t.inputSchema as Record<string, unknown>,
+        annotations: t.annotations,
+      })),
+      nextCursor,
+    };
+  }, MAX_LIST_PAGES);
+
+  if (nextCursor) {
+    console.warn(`Tool list truncated after ${MAX_LIST_PAGES} pages`);
+  }
+  return items;
+}
+
+async function fetchPrompts(client: Client): Promise<MCPPrompt[]> {
+  const { items, nextCursor } = await listPages(async (cursor) => {
+    const { prompts, nextCursor } = await client.listPrompts({ cursor });
+    return {
+      items: prompts.map((p) => ({
+        name: p.name,
+        description: p.description,
+        arguments: p.arguments,
+      })),
+      nextCursor,
+    };
+  }, MAX_LIST_PAGES);
+
+  if (nextCursor) {
+    console.warn(`Prompt list truncated after ${MAX_LIST_PAGES} pages`);
+  }
+  return items;
+}
+
+/**
+ * Fetch one page of resources
+ */
+export async function fetchResourcePage(
+  client: Client,
+  cursor?: string,
+  options?: RequestOptions
+): Promise<ListPage<MCPResource>> {
+  const { resources, nextCursor } = await client.listResources({ cursor }, options);
+  return {
+    items: resources.map((r) => ({
+      uri: r.uri,
+      name: r.name,
+      description: r.description,
+      mimeType: r.mimeType,
+    })),
+    nextCursor,
+  };
+}
+
+async function fetchResources(
+  client: Client
+): Promise<Pick<MCPServerCapabilities, "resources" | "resourcesNextCursor">> {
+  const { items, nextCursor } = await listPages(
+    (cursor) => fetchResourcePage(client, cursor),
+    INITIAL_RESOURCE_PAGES
+  );
+  return { resources: items, resourcesNextCursor: nextCursor };
+}
+
+async function fetchResourceTemplates(client: Client): Promise<MCPResourceTemplate[]> {
+  const { items, nextCursor } = await listPages(async (cursor) => {
+    const { resourceTemplates, nextCursor } = await client.listResourceTemplates({ cursor });
+    return {
+      items: resourceTemplates.map((t) => ({
+        uriTemplate: t.uriTemplate,
+        name: t.name,
+        description: t.description,
+        mimeType: t.mimeType,
+      })),
+      nextCursor,
+    };
+  }, MAX_LIST_PAGES);
+
+  if (nextCursor) {
+    console.warn(`Resource template list truncated after ${MAX_LIST_PAGES} pages`);
+  }
+  return items;
+}
+
+/**
+ * Fetch capabilities from connected client
+ */
+export async function fetchCapabilities(client: Client): Promise<MCPServerCapabilities> {
+  const [toolsResult, promptsResult, resourcesResult, templatesResult] = await Promise.allSettled([
+    fetchTools(client),
+    fetchPrompts(client),
+    fetchResources(client),
+    fetchResourceTemplates(client),
+  ]);
+
+  return {
+    tools: toolsResult.status === "fulfilled" ? toolsResult.value : [],
+    prompts: promptsResult.status === "fulfilled" ? promptsResult.value : [],
+    ...(resourcesResult.status === "fulfilled" ? resourcesResult.value : { resources: [] }),
+    resourceTemplates: templatesResult.status === "fulfilled" ? templatesResult.value : [],
+  };
+}
+
+/**
+ * Re-list tools / prompts / resources when the server sends a list_changed notification
+ * onChange receives only the list that changed; if re-listing fails the cached list is kept
+ * Only the latest re-list of each kind is applied, so a slow stale response can't overwrite newer data
+ */
+export function watchCapabilities(
+  client: Client,
+  onChange: (update: Partial<MCPServerCapabilities>) => void
+): void {
+  const generations = new Map<keyof MCPServerCapabilities, number>();
+
+  const relist = async (kind: keyof MCPServerCapabilities, fetch: () => Promise<Partial<MCPServerCapabilities>>) => {
+    const generation = (generations.get(kind) ?? 0) + 1;
+    generations.set(kind, generation);
+    try {
+      const update = await fetch();
+      if (generations.get(kind) === generation) onChange(update);
+    } catch (error) {
+      console.error(`Failed to re-list ${kind} after list_changed:`, error);
+    }
+  };
+
+  client.setNotificationHandler(ToolListChangedNotificationSchema, () =>
+    relist("tools", async () => ({ tools: await fetchTools(client) }))
+  );
+  client.setNotificationHandler(PromptListChangedNotificationSchema, () =>
+    relist("prompts", async () => ({ prompts: await fetchPrompts(client) }))
+  );
+  client.setNotificationHandler(ResourceListChangedNotificationSchema, () =>
+    // Covers resource templates too; servers without templates just have none
+    relist("resources", async () => ({
+      ...(await fetchResources(client)),
+      resourceTemplates: await fetchResourceTemplates(client).catch(() => []),
+    }))
+  );
+}
@@ -1,21 +1,36 @@
-import { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
-import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
-import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import type {
   MCPServerConfig,
   MCPServerStatus,
   MCPServerCapabilities,
-  MCPTool,
-  MCPPrompt,
-  MCPResource,
+  MCPServerState,
+  ToolCallProgress,
 } from "./types";
+import { CallSlotLimiter } from "./call-slots";
+import { fetchResourcePage } from "./capabilities";
+import { openConnection } from "./connection";
+import { publishMCPEvent } from "./events";
+import { MAX_RECONNECT_ATTEMPTS, reconnectDelay } from "./health";
+import { serverLogs } from "./logs";
+import { getRequestPolicy, withRetry, type RequestAttemptInfo } from "./retry";
+import { StdioProcessTracker } from "./stdio-process";
+
+// Default number of tool calls that may run concurrently on one server
+const DEFAULT_MAX_CONCURRENT_CALLS = 4;
+
+export interface RequestCallOptions {
+  signal?: AbortSignal;
+  onRetry?: (attempt: RequestAttemptInfo) => void; // Called before each retry
+  onProgress?: (progress: ToolCallProgress) => void; // Requests progress notifications
+}
 
 interface ManagedClient {
   client: Client;
   config: MCPServerConfig;
   status: MCPServerStatus;
   capabilities: MCPServerCapabilities | null;
+  stopHealthCheck?: () => void;
+  reconnectTimer?: ReturnType<typeof setTimeout>;
 }
 
 // Extend globalThis type for TypeScript
@@ -30,6 +45,8 @@ declare global {
  */
 class MCPClientManager {
   private clients: Map<string, ManagedClient> = new Map();
+  private callSlots = new CallSlotLimiter();
+  private processes = new StdioProcessTracker();
 
   constructor() {}
 
@@ -42,6 +59,7 @@ class MCPClientManager {
 
   /**
    * Connect to an MCP server
+   * Dropped connections are detected (transport close, failed pings) and reconnected automatically
    */
   async connect(config: MCPServerConfig): Promise<MCPServerStatus> {
     const existingClient = this.clients.get(config.id);
@@ -49,48 +67,27 @@ class MCPClientManager {
       return existingClient.status;
     }
 
-    try {
-      const client = new Client({
-        name: `mcp-client-${config.id}`,
-        version: "1.0.0",
-      });
-
-      const transport = await this.createTransport(config);
-      await client.connect(transport);
-
-      // Fetch capabilities
-      const capabilities = await this.fetchCapabilities(client);
+    // Connecting manually replaces a scheduled reconnect
+    this.cancelReconnect(config.id);
 
-      const connectedStatus: MCPServerStatus = {
-        serverId: config.id,
-        status: "connected",
-        lastConnected: Date.now(),
-      };
-
-      this.clients.set(config.id, {
-        client,
-        config,
-        status: connectedStatus,
-        capabilities,
-      });
-
-      return connectedStatus;
+    try {
+      const managedClient = await this.open(config);
+      this.setState(config.id, managedClient);
+      return this.getStatus(config.id);
     } catch (error) {
-      const errorStatus: MCPServerStatus = {
-        serverId: config.id,
-        status: "error",
-        error: error instanceof Error ? error.message : "Unknown error",
-      };
-
       // Store failed client info for status tracking
-      this.clients.set(config.id, {
+      this.setState(config.id, {
         client: null as unknown as Client,
         config,
-        status: errorStatus,
+        status: {
+          serverId: config.id,
+          status: "error",
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
         capabilities: null,
       });
 
-      return errorStatus;
+      return this.getStatus(config.id);
     }
   }
 
@@ -106,25 +103,31 @@ class MCPClientManager {
       };
     }
 
-    try {
-      if (managedClient.client && managedClient.status.status === "connected") {
-        await managedClient.client.close();
-      }
-    } catch (error) {
-      console.error(`Error disconnecting from server ${serverId}:`, error);
-    }
+    this.cancelReconnect(serverId);
+    managedClient.stopHealthCheck?.();
 
+    const wasConnected = managedClient.status.status === "connected";
     const status: MCPServerStatus = {
       serverId,
       status: "disconnected",
     };
 
-    this.clients.set(serverId, {
+    // Update the status first so the close isn't treated as a dropped connection
+    this.setState(serverId, {
       ...managedClient,
       status,
       capabilities: null,
+      stopHealthCheck: undefined,
     });
 
+    try {
+      if (managedClient.client && wasConnected) {
+        await managedClient.client.close();
+      }
+    } catch (error) {
+      console.error(`Error disconnecting from server ${serverId}:`, error);
+    }
+
     return status;
   }
 
@@ -148,6 +151,43 @@ class MCPClientManager {
     return Array.from(this.clients.values()).map((mc) => mc.status);
   }
 
+  /**
+   * Get status and capabilities of every known server
+   */
+  getAllStates(): MCPServerState[] {
+    return Array.from(this.clients.values()).map((mc) => ({
+      status: mc.status,
+      capabilities: mc.capabilities,
+    }));
+  }
+
+  /**
+   * Get the current config of a known server (including edits made while connected)
+   */
+  getConfig(serverId: string): MCPServerConfig | null {
+    return this.clients.get(serverId)?.config ?? null;
+  }
+
+  /**
+   * Replace the config of a known server after it was edited
+   * Request timeouts, retries and concurrency apply to the next call; transport settings on the next (re)connect
+   */
+  updateConfig(config: MCPServerConfig): boolean {
+    const managedClient = this.clients.get(config.id);
+    if (!managedClient) return false;
+
+    managedClient.config = config;
+    return true;
+  }
+
+  /**
+   * Get the client of a connected server (null while disconnected or reconnecting)
+   */
+  getClient(serverId: string): Client | null {
+    const managedClient = this.clients.get(serverId);
+    return managedClient?.status.status === "connected" ? managedClient.client : null;
+  }
+
   /**
    * Get capabilities of a connected server
    */
@@ -157,23 +197,52 @@ class MCPClientManager {
 
   /**
    * Call a tool on a connected server
+   * Each attempt has the server/tool timeout; transport failures are retried only for
+   * tools annotated as idempotent or read-only.
+   * Aborting the signal cancels the request (the SDK sends notifications/cancelled).
+   * With onProgress a progress token is sent, and each progress notification resets the timeout
    */
   async callTool(
     serverId: string,
     toolName: string,
-    args?: Record<string, unknown>
+    args?: Record<string, unknown>,
+    options?: RequestCallOptions
   ): Promise<unknown> {
-    const managedClient = this.clients.get(serverId);
-    if (!managedClient || managedClient.status.status !== "connected") {
-      throw new Error(`Server ${serverId} is not connected`);
-    }
+    const managedClient = this.getConnectedClient(serverId);
 
-    const result = await managedClient.client.callTool({
-      name: toolName,
-      arguments: args ?? {},
-    });
+    // Stop / an aborted chat request leaves the queue without running the tool
+    const release = await this.callSlots.acquire(
+      serverId,
+      managedClient.config.maxConcurrentCalls ?? DEFAULT_MAX_CONCURRENT_CALLS,
+      options?.signal
+    );
 
-    return result;
+    try {
+      const annotations = managedClient.capabilities?.tools.find((t) => t.name === toolName)?.annotations;
+      const result = await withRetry(
+        // Resolved per attempt: a retry after a dropped connection goes to the reconnected client
+        (requestOptions) =>
+          this.getConnectedClient(serverId).client.callTool(
+            { name: toolName, arguments: args ?? {} },
+            undefined,
+            {
+              ...requestOptions,
+              onprogress: options?.onProgress,
+              resetTimeoutOnProgress: !!options?.onProgress,
+            }
+          ),
+        {
+          ...getRequestPolicy(managedClient.config, toolName),
+          retry: !!(annotations?.idempotentHint || annotations?.readOnlyHint),
+          signal: options?.signal,
+          onRetry: options?.onRetry,
+        }
+      );
+
+      return result;
+    } finally {
+      release();
+    }
   }
 
   /**
@@ -182,17 +251,23 @@ class MCPClientManager {
   async getPrompt(
     serverId: string,
     promptName: string,
-    args?: Record<string, string>
+    args?: Record<string, string>,
+    options?: RequestCallOptions
   ): Promise<unknown> {
-    const managedClient = this.clients.get(serverId);
-    if (!managedClient || managedClient.status.status !== "connected") {
-      throw new Error(`Server ${serverId} is not connected`);
-    }
+    const managedClient = this.getConnectedClient(serverId);
 
-    const result = await managedClient.client.getPrompt({
-      name: promptName,
-      arguments: args,
-    });
+    // Reads are safe to repeat
+    const result = await withRetry(
+      (requestOptions) =>
+        this.getConnectedClient(serverId).client.getPrompt(
+          {
+            name: promptName,
+            arguments: args,
+          },
+          requestOptions
+        ),
+      { ...getRequestPolicy(managedClient.config), retry: true, ...options }
+    );
 
     return result;
   }
@@ -200,19 +275,51 @@ class MCPClientManager {
   /**
    * Read a resource from a connected server
    */
-  async readResource(serverId: string, uri: string): Promise<unknown> {
-    const managedClient = this.clients.get(serverId);
-    if (!managedClient || managedClient.status.status !== "connected") {
-      throw new Error(`Server ${serverId} is not connected`);
-    }
+  async readResource(serverId: string, uri: string, options?: RequestCallOptions): Promise<unknown> {
+    const managedClient = this.getConnectedClient(serverId);
 
-    const result = await managedClient.client.readResource({
-      uri,
-    });
+    const result = await withRetry(
+      (requestOptions) =>
+        this.getConnectedClient(serverId).client.readResource(
+          {
+            uri,
+          },
+          requestOptions
+        ),
+      { ...getRequestPolicy(managedClient.config), retry: true, ...options }
+    );
 
     return result;
   }
 
+  /**
+   * Load the next page of resources after the ones already cached
+   */
+  async loadMoreResources(serverId: string, options?: RequestCallOptions): Promise<MCPServerCapabilities | null> {
+    const managedClient = this.getConnectedClient(serverId);
+    const cursor = managedClient.capabilities?.resourcesNextCursor;
+    if (!cursor) return managedClient.capabilities;
+
+    let client = managedClient.client;
+    const page = await withRetry(
+      (requestOptions) => {
+        client = this.getConnectedClient(serverId).client;
+        return fetchResourcePage(client, cursor, requestOptions);
+      },
+      { ...getRequestPolicy(managedClient.config), retry: true, ...options }
+    );
+
+    // Skip the page if the list was re-fetched (list_changed) or already extended meanwhile
+    const current = this.getCapabilities(serverId);
+    if (current?.resourcesNextCursor === cursor) {
+      this.updateCapabilities(serverId, client, {
+        resources: [...current.resources, ...page.items],
+        resourcesNextCursor: page.nextCursor,
+      });
+    }
+    return this.getCapabilities(serverId);
+  }
+
   /**
    * Disconnect all servers
    */
@@ -221,91 +328,167 @@ class MCPClientManager {
     await Promise.all(serverIds.map((id) => this.disconnect(id)));
   }
 
+  private getConnectedClient(serverId: string): ManagedClient {
+    const managedClient = this.clients.get(serverId);
+    if (!managedClient || managedClient.status.status !== "connected") {
+      throw new Error(`Server ${serverId} is not connected`);
+    }
+    return managedClient;
+  }
+
   /**
-   * Create transport based on config
+   * Open a connection; drops and list_changed updates are routed back to this manager
    */
-  private async createTransport(config: MCPServerConfig) {
-    switch (config.transportType) {
-      case "stdio": {
-        if (!config.stdioConfig) {
-          throw new Error("STDIO config is required for STDIO transport");
-        }
-        return new StdioClientTransport({
-          command: config.stdioConfig.command,
-          args: config.stdioConfig.args,
-          env: config.stdioConfig.env,
-          cwd: config.stdioConfig.cwd,
-        });
-      }
+  private async open(config: MCPServerConfig): Promise<ManagedClient> {
+    const connection = await openConnection(config, {
+      onLost: (client, reason) => this.handleConnectionLost(config.id, client, reason),
+      onCapabilitiesChanged: (client, update) => this.updateCapabilities(config.id, client, update),
+      // Edits made while connected live on the stored config
+      getConfig: (client) => {
+        const current = this.clients.get(config.id);
+        return current?.client === client ? current.config : config;
+      },
+      onLog: (entry) => serverLogs.append(config.id, entry),
+      // Show the exit as soon as the process exits
+      process: this.processes.track(config.id, () => {
+        const current = this.clients.get(config.id);
+        if (current) this.setState(config.id, current);
+      }),
+    });
 
-      case "streamable-http": {
-        if (!config.httpConfig) {
-          throw new Error("HTTP config is required for Streamable HTTP transport");
-        }
-        return new StreamableHTTPClientTransport(
-          new URL(config.httpConfig.url),
-          {
-            requestInit: {
-              headers: config.httpConfig.headers,
-            },
-          }
-        );
-      }
+    return {
+      ...connection,
+      config,
+      status: {
+        serverId: config.id,
+        status: "connected",
+        lastConnected: Date.now(),
+      },
+    };
+  }
+
+  /**
+   * Apply a re-listed capability (list_changed) to the cached capabilities
+   * The chat route reads the cache on each turn, so new tools show up on the next one
+   */
+  private updateCapabilities(serverId: string, client: Client, update: Partial<MCPServerCapabilities>): void {
+    const managedClient = this.clients.get(serverId);
+    if (!managedClient?.capabilities || managedClient.client !== client) return;
+
+    this.setState(serverId, {
+      ...managedClient,
+      capabilities: { ...managedClient.capabilities, ...update },
+    });
+  }
+
+  /**
+   * Tear down a dropped connection and start reconnecting
+   */
+  private handleConnectionLost(serverId: string, client: Client, reason: string): void {
+    const managedClient = this.clients.get(serverId);
+    // Ignore stale clients and intentional disconnects
+    if (!managedClient || managedClient.client !== client || managedClient.status.status !== "connected") {
+      return;
+    }
+
+    console.warn(`MCP server ${serverId} connection lost: ${reason}`);
+    managedClient.stopHealthCheck?.();
+    client.onclose = undefined;
+    client.onerror = undefined;
+    client.close().catch(() => {});
+
+    this.clients.set(serverId, {
+      ...managedClient,
+      client: null as unknown as Client,
+      status: { ...managedClient.status, status: "reconnecting" },
+      capabilities: null,
+      stopHealthCheck: undefined,
+    });
+    this.scheduleReconnect(serverId, 1, reason);
+  }
+
+  /**
+   * Reconnect with exponential backoff; gives up with an error status after MAX_RECONNECT_ATTEMPTS
+   */
+  private scheduleReconnect(serverId: string, attempt: number, reason: string): void {
+    const managedClient = this.clients.get(serverId);
+    // Disconnected or connected manually in the meantime
+    if (managedClient?.status.status !== "reconnecting") return;
+
+    const { lastConnected } = managedClient.status;
+
+    if (attempt > MAX_RECONNECT_ATTEMPTS) {
+      this.setState(serverId, {
+        ...managedClient,
+        status: {
+          serverId,
+          status: "error",
+          error: `${reason} (gave up after ${MAX_RECONNECT_ATTEMPTS} reconnect attempts)`,
+          lastConnected,
+        },
+      });
+      return;
+    }
+
+    const delay = reconnectDelay(attempt);
+    const reconnectTimer = setTimeout(async () => {
+      const current = this.clients.get(serverId);
+      if (current?.status.status !== "reconnecting") return;
+      current.reconnectTimer = undefined;
+
+      try {
+        const reconnected = await this.open(current.config);
 
-      case "sse": {
-        if (!config.httpConfig) {
-          throw new Error("HTTP config is required for SSE transport");
+        // Disconnected or connected manually in the meantime
+        if (this.clients.get(serverId)?.status.status !== "reconnecting") {
+          reconnected.stopHealthCheck?.();
+          await reconnected.client.close();
+          return;
         }
-        // SSEClientTransport only accepts URL
-        return new SSEClientTransport(new URL(config.httpConfig.url));
+
+        this.setState(serverId, reconnected);
+        console.log(`MCP server ${serverId} reconnected after ${attempt} attempt(s)`);
+      } catch (error) {
+        // Disconnected or connected manually while this attempt ran
+        if (this.clients.get(serverId)?.status.status !== "reconnecting") return;
+        this.scheduleReconnect(serverId, attempt + 1, error instanceof Error ? error.message : "Reconnect failed");
       }
+    }, delay);
+
+    this.setState(serverId, {
+      ...managedClient,
+      status: {
+        serverId,
+        status: "reconnecting",
+        error: reason,
+        lastConnected,
+        reconnectAttempt: attempt,
+        nextRetryAt: Date.now() + delay,
+      },
+      reconnectTimer,
+    });
+  }
 
-      default:
-        throw new Error(`Unsupported transport type: ${config.transportType}`);
+  private cancelReconnect(serverId: string): void {
+    const managedClient = this.clients.get(serverId);
+    if (managedClient?.reconnectTimer) {
+      clearTimeout(managedClient.reconnectTimer);
+      managedClient.reconnectTimer = undefined;
     }
   }
 
   /**
-   * Fetch capabilities from connected client
+   * Store a server's state and publish it to /api/mcp/events subscribers
+   * The status carries the latest STDIO process info (PID, exit, stderr)
    */
-  private async fetchCapabilities(
-    client: Client
-  ): Promise<MCPServerCapabilities> {
-    const [toolsResult, promptsResult, resourcesResult] = await Promise.allSettled([
-      client.listTools(),
-      client.listPrompts(),
-      client.listResources(),
-    ]);
-
-    const tools: MCPTool[] =
-      toolsResult.status === "fulfilled"
-        ? toolsResult.value.tools.map((t) => ({
-            name: t.name,
-            description: t.description,
-            inputSchema: t.inputSchema as Record<string, unknown>,
-          }))
-        : [];
-
-    const prompts: MCPPrompt[] =
-      promptsResult.status === "fulfilled"
-        ? promptsResult.value.prompts.map((p) => ({
-            name: p.name,
-            description: p.description,
-            arguments: p.arguments,
-          }))
-        : [];
-
-    const resources: MCPResource[] =
-      resourcesResult.status === "fulfilled"
-        ? resourcesResult.value.resources.map((r) => ({
-            uri: r.uri,
-            name: r.name,
-            description: r.description,
-            mimeType: r.mimeType,
-          }))
-        : [];
-
-    return { tools, prompts, resources };
+  private setState(serverId: string, managedClient: ManagedClient): void {
+    const process = managedClient.config.transportType === "stdio" ? this.processes.get(serverId) : undefined;
+    managedClient = { ...managedClient, status: { ...managedClient.status, process } };
+    this.clients.set(serverId, managedClient);
+    publishMCPEvent({
+      type: "server",
+      server: { status: managedClient.status, capabilities: managedClient.capabilities },
+    });
   }
 }
 
@@ -0,0 +1,97 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type { MCPLogEntry, MCPServerConfig, MCPServerCapabilities } from "./types";
+import { fetchCapabilities, watchCapabilities } from "./capabilities";
+import { registerElicitationHandler } from "./elicitation";
+import { startHealthCheck } from "./health";
+import type { StdioProcessHandlers } from "./stdio-process";
+import { DEFAULT_LOG_LEVEL, setLogLevel, watchLogs } from "./logs";
+import { registerRootsHandler } from "./roots";
+import { registerSamplingHandler } from "./sampling";
+import { createTransport } from "./transport";
+
+export interface ConnectionHandlers {
+  // The connection dropped (transport closed, errored or stopped answering pings)
+  onLost: (client: Client, reason: string) => void;
+  // The server re-listed tools / prompts / resources after list_changed
+  onCapabilitiesChanged: (client: Client, update: Partial<MCPServerCapabilities>) => void;
+  // Current config of the server (roots and limits can be edited while connected)
+  getConfig: (client: Client) => MCPServerConfig;
+  // The server sent a log message (notifications/message)
+  onLog: (entry: Omit<MCPLogEntry, "id">) => void;
+  // STDIO servers: stderr output and lifecycle of the server process
+  process: StdioProcessHandlers;
+}
+
+export interface OpenedConnection {
+  client: Client;
+  capabilities: MCPServerCapabilities;
+  stopHealthCheck: () => void;
+}
+
+/**
+ * Open a connection, fetch capabilities and start watching its health
+ */
+export async function openConnection(
+  config: MCPServerConfig,
+  handlers: ConnectionHandlers
+): Promise<OpenedConnection> {
+  const client = new Client(
+    {
+      name: `mcp-client-${config.id}`,
+      version: "1.0.0",
+    },
+    {
+      capabilities: { sampling: {}, elicitation: { form: {} }, roots: { listChanged: true } },
+    }
+  );
+
+  // Servers may ask for LLM completions (approved by the user, see sampling.ts)
+  registerSamplingHandler(client, () => handlers.getConfig(client));
+  // ... and for input from the user during a tool call (forwarded over the chat stream)
+  registerElicitationHandler(client, config);
+  // ... and for the directories they may work in
+  registerRootsHandler(client, () => handlers.getConfig(client).roots ?? []);
+  watchLogs(client, handlers.onLog);
+
+  const transport = await createTransport(config, handlers.process);
+  // A failed initialize closes the client (and stops a STDIO process) on its own
+  await client.connect(transport);
+
+  // Transport closed: stdio process exited, HTTP stream ended, ...
+  client.onclose = () => handlers.onLost(client, "Connection closed");
+  // Transport errors can be transient; a ping decides whether the connection is gone
+  client.onerror = (error) => {
+    client.ping({ timeout: 5_000 }).catch(() => handlers.onLost(client, `Transport error: ${error.message}`));
+  };
+
+  // Servers may add or remove tools, prompts and resources while connected. Re-lists that
+  // finish during the initial fetch are newer than it and are applied on top of it
+  let pendingUpdate: Partial<MCPServerCapabilities> | null = {};
+  watchCapabilities(client, (update) => {
+    if (pendingUpdate) Object.assign(pendingUpdate, update);
+    else handlers.onCapabilitiesChanged(client, update);
+  });
+
+  let capabilities: MCPServerCapabilities;
+  try {
+    // A server rejecting the log level is still usable
+    const logLevel = config.logLevel ?? DEFAULT_LOG_LEVEL;
+    await setLogLevel(client, logLevel).catch((error) =>
+      console.warn(`MCP server ${config.name} rejected log level ${logLevel}:`, error)
+    );
+
+    // Fetch capabilities
+    capabilities = { ...(await fetchCapabilities(client)), ...pendingUpdate };
+    pendingUpdate = null;
+  } catch (error) {
+    // Don't leave the connection (or a spawned server process) behind
+    client.onclose = undefined;
+    client.onerror = undefined;
+    await client.close().catch(() => {});
+    throw error;
+  }
+
+  const stopHealthCheck = startHealthCheck(client, (reason) => handlers.onLost(client, reason));
+
+  return { client, capabilities, stopHealthCheck };
+}
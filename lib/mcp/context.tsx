@@ -2,12 +2,19 @@
 
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from "react";
 import { mcpStorage } from "./storage";
+import { useSamplingRequests } from "./use-sampling-requests";
+import { useServerConfigSync } from "./use-server-config-sync";
 import type {
   MCPServerConfig,
   MCPServerStatus,
   MCPServerCapabilities,
+  MCPServerEvent,
+  MCPServerState,
   MCPApiResponse,
   MCPExportData,
+  MCPLogLevel,
+  SamplingRequestInfo,
+  ToolApprovalPolicy,
 } from "./types";
 
 interface MCPContextValue {
@@ -16,6 +23,8 @@ interface MCPContextValue {
   addServer: (config: Omit<MCPServerConfig, "id" | "createdAt" | "updatedAt">) => MCPServerConfig;
   updateServer: (id: string, updates: Partial<Omit<MCPServerConfig, "id" | "createdAt">>) => MCPServerConfig | null;
   deleteServer: (id: string) => boolean;
+  setToolPolicy: (serverId: string, toolName: string, policy: ToolApprovalPolicy) => Promise<void>;
+  setLogLevel: (serverId: string, level: MCPLogLevel) => Promise<void>;
   
   // Connection management
   statuses: Map<string, MCPServerStatus>;
@@ -25,11 +34,16 @@ interface MCPContextValue {
   // Capabilities
   capabilities: Map<string, MCPServerCapabilities>;
   refreshCapabilities: (serverId: string) => Promise<MCPServerCapabilities | null>;
+  loadMoreResources: (serverId: string) => Promise<MCPServerCapabilities | null>;
   
   // Tool execution
   callTool: (serverId: string, toolName: string, args?: Record<string, unknown>) => Promise<unknown>;
   getPrompt: (serverId: string, promptName: string, args?: Record<string, string>) => Promise<unknown>;
   readResource: (serverId: string, uri: string) => Promise<unknown>;
+
+  // Sampling requests from servers, waiting for the user (live across tabs)
+  samplingRequests: SamplingRequestInfo[];
+  respondToSampling: (requestId: string, approved: boolean) => Promise<void>;
   
   // Import/Export
   exportConfig: () => MCPExportData;
@@ -46,6 +60,8 @@ export function MCPProvider({ children }: { children: ReactNode }) {
   const [statuses, setStatuses] = useState<Map<string, MCPServerStatus>>(new Map());
   const [capabilities, setCapabilities] = useState<Map<string, MCPServerCapabilities>>(new Map());
   const [isLoading, setIsLoading] = useState(true);
+  const { samplingRequests, respondToSampling, applySamplingEvent } = useSamplingRequests();
+  const { updateServer, setToolPolicy, setLogLevel } = useServerConfigSync(setServers);
 
   // Auto-connect enabled servers
   const autoConnectServers = useCallback(async (serverList: MCPServerConfig[]) => {
@@ -57,7 +73,8 @@ export function MCPProvider({ children }: { children: ReactNode }) {
         .then((res) => res.json())
         .catch(() => null);
       
-      if (currentStatus?.data?.status === "connected") {
+      // Connected, or the server is already reconnecting it on its own
+      if (currentStatus?.data?.status === "connected" || currentStatus?.data?.status === "reconnecting") {
         // Already connected, just update local state
         setStatuses((prev) => {
           const next = new Map(prev);
@@ -124,11 +141,14 @@ export function MCPProvider({ children }: { children: ReactNode }) {
         } else {
           setStatuses((prev) => {
             const next = new Map(prev);
-            next.set(server.id, {
-              serverId: server.id,
-              status: "error",
-              error: result.error ?? "Connection failed",
-            });
+            next.set(
+              server.id,
+              result.data ?? {
+                serverId: server.id,
+                status: "error",
+                error: result.error ?? "Connection failed",
+              }
+            );
             return next;
           });
         }
@@ -158,6 +178,48 @@ export function MCPProvider({ children }: { children: ReactNode }) {
     });
   }, [autoConnectServers]);
 
+  // Keep statuses and capabilities live: the server pushes every change
+  // (including ones made from other tabs, dropped connections and reconnects)
+  useEffect(() => {
+    const applyStates = (states: MCPServerState[]) => {
+      setStatuses((prev) => {
+        const next = new Map(prev);
+        for (const { status } of states) {
+          next.set(status.serverId, status);
+        }
+        return next;
+      });
+      setCapabilities((prev) => {
+        const next = new Map(prev);
+        for (const { status, capabilities } of states) {
+          if (capabilities) {
+            next.set(status.serverId, capabilities);
+          } else {
+            next.delete(status.serverId);
+          }
+        }
+        return next;
+      });
+    };
+
+    // EventSource reconnects on its own and receives a fresh snapshot each time
+    const events = new EventSource("/api/mcp/events");
+    events.addEventListener("snapshot", (e) => {
+      const event: MCPServerEvent = JSON.parse((e as MessageEvent<string>).data);
+      if (event.type === "snapshot") applyStates(event.servers);
+      applySamplingEvent(event);
+    });
+    events.addEventListener("server", (e) => {
+      const event: MCPServerEvent = JSON.parse((e as MessageEvent<string>).data);
+      if (event.type === "server") applyStates([event.server]);
+    });
+    for (const type of ["sampling.request", "sampling.resolved"]) {
+      events.addEventListener(type, (e) => applySamplingEvent(JSON.parse((e as MessageEvent<string>).data)));
+    }
+
+    return () => events.close();
+  }, [applySamplingEvent]);
+
   // Add server
   const addServer = useCallback((config: Omit<MCPServerConfig, "id" | "createdAt" | "updatedAt">) => {
     const newServer = mcpStorage.addServer(config);
@@ -165,15 +227,6 @@ export function MCPProvider({ children }: { children: ReactNode }) {
     return newServer;
   }, []);
 
-  // Update server
-  const updateServer = useCallback((id: string, updates: Partial<Omit<MCPServerConfig, "id" | "createdAt">>) => {
-    const updated = mcpStorage.updateServer(id, updates);
-    if (updated) {
-      setServers((prev) => prev.map((s) => (s.id === id ? updated : s)));
-    }
-    return updated;
-  }, []);
-
   // Delete server
   const deleteServer = useCallback((id: string) => {
     const success = mcpStorage.deleteServer(id);
@@ -214,6 +267,31 @@ export function MCPProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
+  // Load the next page of resources (large catalogs are listed on demand)
+  const loadMoreResources = useCallback(async (serverId: string): Promise<MCPServerCapabilities | null> => {
+    try {
+      const response = await fetch("/api/mcp/resources/more", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ serverId }),
+      });
+      const result: MCPApiResponse<MCPServerCapabilities> = await response.json();
+
+      if (result.success && result.data) {
+        setCapabilities((prev) => {
+          const next = new Map(prev);
+          next.set(serverId, result.data!);
+          return next;
+        });
+        return result.data;
+      }
+      return null;
+    } catch (error) {
+      console.error("Failed to load more resources:", error);
+      return null;
+    }
+  }, []);
+
   // Connect to server
   const connect = useCallback(async (serverId: string): Promise<MCPServerStatus> => {
     const server = servers.find((s) => s.id === serverId);
@@ -251,7 +329,8 @@ export function MCPProvider({ children }: { children: ReactNode }) {
 
         return result.data;
       } else {
-        const errorStatus: MCPServerStatus = {
+        // The manager's status carries the STDIO process info (exit, stderr)
+        const errorStatus: MCPServerStatus = result.data ?? {
           serverId,
           status: "error",
           error: result.error ?? "Connection failed",
@@ -382,14 +461,19 @@ export function MCPProvider({ children }: { children: ReactNode }) {
     addServer,
     updateServer,
     deleteServer,
+    setToolPolicy,
+    setLogLevel,
     statuses,
     connect,
     disconnect,
     capabilities,
     refreshCapabilities,
+    loadMoreResources,
     callTool,
     getPrompt,
     readResource,
+    samplingRequests,
+    respondToSampling,
     exportConfig,
     importConfig,
     isLoading,
@@ -0,0 +1,97 @@
+// Validation of elicitation answers against the requested schema
+// The SDK passes accepted content through unchecked, so the server would receive whatever the client sent
+
+import type { ElicitationContent, ElicitationFieldSchema, ElicitationRequestInfo } from "./types";
+
+const EMAIL = /^[^\s@]+@[^\s@]+$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+// RFC 3339: seconds and an offset are required
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}[Tt]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/;
+
+const isUri = (value: string) => {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const FORMATS: Record<NonNullable<ElicitationFieldSchema["format"]>, (value: string) => boolean> = {
+  email: (value) => EMAIL.test(value),
+  uri: isUri,
+  date: (value) => DATE.test(value) && !Number.isNaN(Date.parse(value)),
+  "date-time": (value) => DATE_TIME.test(value) && !Number.isNaN(Date.parse(value)),
+};
+
+// Why a value doesn't match its field, or null if it does
+function validateField(field: ElicitationFieldSchema, value: unknown): string | null {
+  switch (field.type) {
+    case "boolean":
+      return typeof value === "boolean" ? null : "must be a boolean";
+
+    case "number":
+    case "integer":
+      if (typeof value !== "number" || !Number.isFinite(value)) return "must be a number";
+      if (field.type === "integer" && !Number.isInteger(value)) return "must be an integer";
+      if (field.minimum !== undefined && value < field.minimum) return `must be at least ${field.minimum}`;
+      if (field.maximum !== undefined && value > field.maximum) return `must be at most ${field.maximum}`;
+      return null;
+
+    case "array": {
+      if (!Array.isArray(value) || !value.every((item) => typeof item === "string")) {
+        return "must be a list of strings";
+      }
+      const allowed = field.items?.anyOf?.map((option) => option.const) ?? field.items?.enum;
+      if (allowed && value.some((item) => !allowed.includes(item))) return `must only contain ${allowed.join(", ")}`;
+      if (field.minItems !== undefined && value.length < field.minItems) {
+        return `must have at least ${field.minItems} items`;
+      }
+      if (field.maxItems !== undefined && value.length > field.maxItems) {
+        return `must have at most ${field.maxItems} items`;
+      }
+      return null;
+    }
+
+    default: {
+      if (typeof value !== "string") return "must be a string";
+      const allowed = field.oneOf?.map((option) => option.const) ?? field.enum;
+      if (allowed && !allowed.includes(value)) return `must be one of ${allowed.join(", ")}`;
+      if (field.minLength !== undefined && value.length < field.minLength) {
+        return `must be at least ${field.minLength} characters`;
+      }
+      if (field.maxLength !== undefined && value.length > field.maxLength) {
+        return `must be at most ${field.maxLength} characters`;
+      }
+      if (field.format && !FORMATS[field.format](value)) return `must be a valid ${field.format}`;
+      return null;
+    }
+  }
+}
+
+/**
+ * Check accepted content against the requested schema
+ * Returns the first mismatch, or null if the content is valid
+ */
+export function validateElicitationContent(
+  schema: ElicitationRequestInfo["requestedSchema"],
+  content: unknown
+): string | null {
+  if (!content || typeof content !== "object" || Array.isArray(content)) {
+    return "Content must be an object";
+  }
+
+  const values = content as ElicitationContent;
+  for (const name of schema.required ?? []) {
+    if (values[name] === undefined) return `"${name}" is required`;
+  }
+
+  for (const [name, value] of Object.entries(values)) {
+    const field = schema.properties[name];
+    if (!field) return `"${name}" is not in the requested schema`;
+
+    const error = validateField(field, value);
+    if (error) return `"${name}" ${error}`;
+  }
+  return null;
+}
@@ -0,0 +1,120 @@
+// MCP Elicitation (server-only)
+// Servers may ask the user for structured input in the middle of a tool call (elicitation/create).
+// Requests are routed to the chat request running a tool call on that server;
+// POST /api/chat/elicitations delivers the user's answer
+
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { ElicitRequestSchema, type ElicitResult } from "@modelcontextprotocol/sdk/types.js";
+import type { ElicitationRequestInfo, MCPServerConfig } from "./types";
+
+export type ElicitationResponse = Pick<ElicitResult, "action" | "content">;
+
+// Forwards a request to the user and resolves with their answer
+type ElicitationRoute = (request: ElicitationRequestInfo, signal: AbortSignal) => Promise<ElicitationResponse>;
+
+interface PendingElicitation {
+  request: ElicitationRequestInfo;
+  finish: (response: ElicitationResponse) => void;
+}
+
+// Unanswered requests are cancelled
+const ELICITATION_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Extend globalThis type for TypeScript
+declare global {
+  var __elicitationRoutes: Map<string, ElicitationRoute[]> | undefined;
+  var __elicitationWaiters: Map<string, PendingElicitation> | undefined;
+}
+
+// Shared across requests (the answer arrives on a separate request)
+const routes: Map<string, ElicitationRoute[]> = (globalThis.__elicitationRoutes ??= new Map());
+const waiters = (globalThis.__elicitationWaiters ??= new Map());
+
+/**
+ * Receive elicitation requests from a server while one of its tools runs
+ * Returns a function that stops routing to this handler
+ */
+export function routeElicitations(serverId: string, route: ElicitationRoute): () => void {
+  routes.set(serverId, [...(routes.get(serverId) ?? []), route]);
+  return () => {
+    const remaining = (routes.get(serverId) ?? []).filter((r) => r !== route);
+    if (remaining.length > 0) {
+      routes.set(serverId, remaining);
+    } else {
+      routes.delete(serverId);
+    }
+  };
+}
+
+/**
+ * Wait for the user's answer to an elicitation request
+ * Resolves with "cancel" on timeout or when the signal aborts
+ */
+export function waitForElicitation(request: ElicitationRequestInfo, signal: AbortSignal): Promise<ElicitationResponse> {
+  return new Promise((resolve) => {
+    const finish = (response: ElicitationResponse) => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", onAbort);
+      waiters.delete(request.id);
+      resolve(response);
+    };
+
+    const onAbort = () => finish({ action: "cancel" });
+    const timer = setTimeout(onAbort, ELICITATION_TIMEOUT_MS);
+
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener("abort", onAbort);
+    waiters.set(request.id, { request, finish });
+  });
+}
+
+/**
+ * Get a request that is still waiting for the user's answer
+ */
+export function getPendingElicitation(requestId: string): ElicitationRequestInfo | undefined {
+  return waiters.get(requestId)?.request;
+}
+
+/**
+ * Deliver the user's answer to a pending elicitation request
+ * Returns false if no request with that ID is waiting
+ */
+export function resolveElicitation(requestId: string, response: ElicitationResponse): boolean {
+  const pendingRequest = waiters.get(requestId);
+  if (!pendingRequest) return false;
+
+  pendingRequest.finish(response);
+  return true;
+}
+
+/**
+ * Answer elicitation/create (form mode) for a connection
+ * Without a chat tool call running on the server there is nobody to ask, so the request is cancelled.
+ * The request doesn't say which tool call it belongs to, so with several calls running on the
+ * server it is cancelled too rather than shown in a chat that didn't make the call
+ */
+export function registerElicitationHandler(client: Client, config: MCPServerConfig): void {
+  client.setRequestHandler(ElicitRequestSchema, async (request, extra) => {
+    const serverRoutes = routes.get(config.id) ?? [];
+    if (serverRoutes.length > 1) {
+      console.warn(`Elicitation from ${config.name} cancelled: ${serverRoutes.length} tool calls are running on it`);
+    }
+    // Only form mode is advertised, so URL mode requests never get here
+    if (serverRoutes.length !== 1 || !("requestedSchema" in request.params)) {
+      return { action: "cancel" };
+    }
+    const [route] = serverRoutes;
+
+    return route(
+      {
+        id: `el_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+        message: request.params.message,
+        requestedSchema: request.params.requestedSchema as ElicitationRequestInfo["requestedSchema"],
+      },
+      extra.signal
+    );
+  });
+}
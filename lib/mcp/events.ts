@@ -0,0 +1,47 @@
+// MCP Server Events (server-only)
+// The client manager publishes status / capability changes here;
+// /api/mcp/events streams them to every open tab
+
+import type { MCPServerEvent } from "./types";
+
+type MCPEventListener = (event: MCPServerEvent) => void;
+
+// Extend globalThis type for TypeScript
+declare global {
+  var __mcpEventListeners: Set<MCPEventListener> | undefined;
+}
+
+// Shared with the manager singleton across hot reloads
+const listeners = (globalThis.__mcpEventListeners ??= new Set());
+
+/**
+ * Listen for server events
+ * Returns a function that removes the listener
+ */
+export function subscribeMCPEvents(listener: MCPEventListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Deliver an event to every listener
+ * A failing listener (e.g. a closed stream) doesn't affect the others
+ */
+export function publishMCPEvent(event: MCPServerEvent): void {
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error("MCP event listener error:", error);
+    }
+  }
+}
+
+/**
+ * Serialize an event as an SSE message
+ */
+export function encodeMCPEvent(event: MCPServerEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
@@ -0,0 +1,57 @@
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+
+// Ping cadence for connected servers
+const HEALTH_CHECK_INTERVAL_MS = 30_000;
+const PING_TIMEOUT_MS = 10_000;
+// Consecutive failed pings before the connection counts as lost
+const MAX_MISSED_PINGS = 2;
+
+// Reconnect backoff: 1s, 2s, 4s ... capped at 60s, then give up
+export const MAX_RECONNECT_ATTEMPTS = 8;
+const RECONNECT_BASE_DELAY_MS = 1_000;
+const RECONNECT_MAX_DELAY_MS = 60_000;
+
+/**
+ * Delay before reconnect attempt n (1-based)
+ */
+export function reconnectDelay(attempt: number): number {
+  return Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS);
+}
+
+/**
+ * Ping a client periodically; calls onUnhealthy once after repeated failures
+ * Returns a function that stops the checks
+ */
+export function startHealthCheck(client: Client, onUnhealthy: (reason: string) => void): () => void {
+  let missed = 0;
+  let inFlight = false;
+  let stopped = false;
+
+  const check = async () => {
+    if (inFlight || stopped) return;
+    inFlight = true;
+    try {
+      await client.ping({ timeout: PING_TIMEOUT_MS });
+      missed = 0;
+    } catch (error) {
+      missed++;
+      if (missed >= MAX_MISSED_PINGS && !stopped) {
+        stop();
+        onUnhealthy(`Health check failed: ${error instanceof Error ? error.message : "no response to ping"}`);
+      }
+    } finally {
+      inFlight = false;
+    }
+  };
+
+  const timer = setInterval(check, HEALTH_CHECK_INTERVAL_MS);
+  // Don't keep the process alive just for health checks
+  timer.unref?.();
+
+  function stop() {
+    stopped = true;
+    clearInterval(timer);
+  }
+
+  return stop;
+}
@@ -0,0 +1,68 @@
+// MCP server logs (server-only)
+// Servers with the logging capability send notifications/message at or above the level
+// set with logging/setLevel; the latest entries are kept per server for /api/mcp/logs
+
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { LoggingMessageNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import type { MCPLogEntry, MCPLogLevel } from "./types";
+
+// Entries kept per server; older ones are dropped
+const MAX_LOG_ENTRIES = 500;
+
+export const DEFAULT_LOG_LEVEL: MCPLogLevel = "info";
+
+/**
+ * Bounded log buffer per key (server ID)
+ */
+export class LogBuffer {
+  private entries: Map<string, MCPLogEntry[]> = new Map();
+  private nextId = 1;
+
+  append(key: string, entry: Omit<MCPLogEntry, "id">): void {
+    const entries = this.entries.get(key) ?? [];
+    entries.push({ ...entry, id: this.nextId++ });
+    if (entries.length > MAX_LOG_ENTRIES) {
+      entries.splice(0, entries.length - MAX_LOG_ENTRIES);
+    }
+    this.entries.set(key, entries);
+  }
+
+  /**
+   * Entries oldest first; with `after`, only entries newer than that ID
+   */
+  get(key: string, after = 0): MCPLogEntry[] {
+    return (this.entries.get(key) ?? []).filter((entry) => entry.id > after);
+  }
+
+  clear(key: string): void {
+    this.entries.delete(key);
+  }
+}
+
+// Extend globalThis type for TypeScript
+declare global {
+  var __mcpServerLogs: LogBuffer | undefined;
+}
+
+// Kept across reconnects and disconnects; shared by the manager and /api/mcp/logs
+export const serverLogs = (globalThis.__mcpServerLogs ??= new LogBuffer());
+
+/**
+ * Receive log messages from a connection
+ * Registered before connecting so messages sent during initialization aren't lost
+ */
+export function watchLogs(client: Client, onLog: (entry: Omit<MCPLogEntry, "id">) => void): void {
+  client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+    const { level, logger, data } = notification.params;
+    onLog({ level, logger, data, timestamp: Date.now() });
+  });
+}
+
+/**
+ * Ask a connected server to send log messages at or above `level`
+ * Servers without the logging capability are skipped
+ */
+export async function setLogLevel(client: Client, level: MCPLogLevel): Promise<void> {
+  if (!client.getServerCapabilities()?.logging) return;
+  await client.setLoggingLevel(level);
+}
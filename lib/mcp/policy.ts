@@ -0,0 +1,28 @@
+import type { MCPServerConfig, MCPTool, ToolApprovalPolicy } from "./types";
+
+/**
+ * Whether a tool may be destructive
+ * Per the spec, tools that aren't read-only are destructive unless marked otherwise
+ * Allowing such a tool without asking needs an explicit opt-in from the user
+ */
+export function isDestructiveTool(tool: Pick<MCPTool, "annotations">): boolean {
+  return !tool.annotations?.readOnlyHint && tool.annotations?.destructiveHint !== false;
+}
+
+/**
+ * Policy for a tool without a stored one
+ * Read-only tools run without confirmation; everything else asks first
+ */
+export function getDefaultToolPolicy(tool: Pick<MCPTool, "annotations">): ToolApprovalPolicy {
+  return tool.annotations?.readOnlyHint ? "allow" : "ask";
+}
+
+/**
+ * Effective approval policy for a tool (shared by the chat route and the /mcp page)
+ */
+export function getToolPolicy(
+  config: MCPServerConfig | null | undefined,
+  tool: Pick<MCPTool, "name" | "annotations">
+): ToolApprovalPolicy {
+  return config?.toolPolicies?.[tool.name] ?? getDefaultToolPolicy(tool);
+}
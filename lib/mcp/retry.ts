@@ -0,0 +1,120 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { RequestOptions } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { MCPServerConfig } from "./types";
+
+// Defaults when the server config doesn't set them
+export const DEFAULT_REQUEST_TIMEOUT_MS = 30_000;
+export const DEFAULT_MAX_RETRIES = 2;
+
+// Backoff before retry n (0-based): base * 2^n, plus up to 20% jitter
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8_000;
+
+// How a request went, for display in the chat UI
+export interface RequestAttemptInfo {
+  timeoutMs: number;
+  retries: number;
+  timedOut: boolean;
+}
+
+/**
+ * A request that failed after its timeout / retry policy was applied
+ */
+export class MCPRequestError extends Error {
+  readonly attempt: RequestAttemptInfo;
+
+  constructor(message: string, attempt: RequestAttemptInfo, cause?: unknown) {
+    super(message, { cause });
+    this.name = "MCPRequestError";
+    this.attempt = attempt;
+  }
+}
+
+/**
+ * Timeout and retry limits for a server, with the tool's own timeout if set
+ */
+export function getRequestPolicy(config: MCPServerConfig, toolName?: string) {
+  return {
+    timeoutMs:
+      (toolName ? config.toolTimeouts?.[toolName] : undefined) ??
+      config.requestTimeoutMs ??
+      DEFAULT_REQUEST_TIMEOUT_MS,
+    maxRetries: config.maxRetries ?? DEFAULT_MAX_RETRIES,
+  };
+}
+
+export const isTimeoutError = (error: unknown) =>
+  error instanceof McpError && error.code === ErrorCode.RequestTimeout;
+
+/**
+ * Failures of the connection rather than of the request itself
+ * Protocol errors returned by the server (invalid params, unknown tool, ...) are not retried
+ */
+export function isTransportError(error: unknown): boolean {
+  if (error instanceof McpError) {
+    return error.code === ErrorCode.RequestTimeout || error.code === ErrorCode.ConnectionClosed;
+  }
+  return error instanceof Error;
+}
+
+function backoffDelay(retry: number): number {
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** retry, RETRY_MAX_DELAY_MS);
+  return delay + Math.random() * delay * 0.2;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Run a request with a per-attempt timeout, retrying transport failures with exponential backoff
+ * Only pass retry: true for operations that are safe to repeat
+ */
+export async function withRetry<T>(
+  request: (options: RequestOptions) => Promise<T>,
+  policy: {
+    timeoutMs: number;
+    maxRetries: number;
+    retry: boolean;
+    signal?: AbortSignal;
+    onRetry?: (attempt: RequestAttemptInfo, error: unknown) => void;
+  }
+): Promise<T> {
+  const { timeoutMs, signal } = policy;
+  const maxRetries = policy.retry ? policy.maxRetries : 0;
+
+  for (let retries = 0; ; retries++) {
+    try {
+      return await request({ timeout: timeoutMs, signal });
+    } catch (error) {
+      // Cancelled by the caller: not a failure of the request
+      if (signal?.aborted) throw error;
+
+      const attempt: RequestAttemptInfo = { timeoutMs, retries, timedOut: isTimeoutError(error) };
+
+      if (retries < maxRetries && isTransportError(error)) {
+        policy.onRetry?.({ ...attempt, retries: retries + 1 }, error);
+        await sleep(backoffDelay(retries), signal);
+        continue;
+      }
+
+      const reason = attempt.timedOut
+        ? `Timed out after ${Math.round(timeoutMs / 1000)}s`
+        : error instanceof Error
+          ? error.message
+          : "Unknown error";
+      const message = retries > 0 ? `${reason} (retried ${retries}x)` : reason;
+      throw new MCPRequestError(message, attempt, error);
+    }
+  }
+}
@@ -0,0 +1,26 @@
+// MCP Roots (server-only)
+// Servers ask which directories they may work in (roots/list); each server config lists its own.
+// Changing them while connected sends notifications/roots/list_changed (see setServerRoots in server-settings.ts)
+
+import { pathToFileURL } from "node:url";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { ListRootsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import type { MCPRoot } from "./types";
+
+// Roots are file:// URIs; plain paths from the server form are converted
+function toRootUri(uri: string): string {
+  return uri.startsWith("file://") ? uri : pathToFileURL(uri).href;
+}
+
+/**
+ * Answer roots/list for a connection
+ * Roots are read on every request since they can change while connected
+ */
+export function registerRootsHandler(client: Client, getRoots: () => MCPRoot[]): void {
+  client.setRequestHandler(ListRootsRequestSchema, async () => ({
+    roots: getRoots().map((root) => ({
+      uri: toRootUri(root.uri),
+      ...(root.name ? { name: root.name } : {}),
+    })),
+  }));
+}
@@ -0,0 +1,171 @@
+// MCP Sampling (server-only)
+// Servers may ask for an LLM completion (sampling/createMessage). Each request is shown
+// to the user over /api/mcp/events and runs on the chat's LLM backend once approved
+// (POST /api/mcp/sampling delivers the decision)
+
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import {
+  CreateMessageRequestSchema,
+  ErrorCode,
+  McpError,
+  type SamplingMessage,
+} from "@modelcontextprotocol/sdk/types.js";
+import { estimateTokens } from "@/lib/chat/context";
+import { resolveLLMFromHints } from "@/lib/llm";
+import { publishMCPEvent } from "./events";
+import type { MCPServerConfig, SamplingRequestInfo } from "./types";
+
+// Defaults when the server config doesn't set them
+const DEFAULT_SAMPLING_MAX_TOKENS = 1024;
+// Requests nobody answers are rejected
+const SAMPLING_APPROVAL_TIMEOUT_MS = 5 * 60 * 1000;
+// Error code the spec uses for "user rejected sampling request"
+const USER_REJECTED = -1;
+
+interface PendingSampling {
+  info: SamplingRequestInfo;
+  finish: (approved: boolean) => void;
+}
+
+// Extend globalThis type for TypeScript
+declare global {
+  var __samplingRequests: Map<string, PendingSampling> | undefined;
+  var __samplingUsage: Map<string, number> | undefined;
+}
+
+// Shared across requests (the decision arrives on a separate request)
+const pending = (globalThis.__samplingRequests ??= new Map());
+// Tokens used per server ID; kept across reconnects so the budget isn't reset by one
+const usage = (globalThis.__samplingUsage ??= new Map());
+
+// Text of a sampling message; images, audio and tool blocks become placeholders
+function toText(content: SamplingMessage["content"]): string {
+  const blocks = Array.isArray(content) ? content : [content];
+  return blocks.map((block) => (block.type === "text" ? block.text : `[${block.type}]`)).join("\n");
+}
+
+/**
+ * Wait for the user to approve or reject a sampling request
+ * Resolves false on timeout or when the server cancels the request
+ */
+function waitForDecision(info: SamplingRequestInfo, signal: AbortSignal): Promise<boolean> {
+  return new Promise((resolve) => {
+    const finish = (approved: boolean) => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", onAbort);
+      pending.delete(info.id);
+      publishMCPEvent({ type: "sampling.resolved", requestId: info.id });
+      resolve(approved);
+    };
+
+    const onAbort = () => finish(false);
+    const timer = setTimeout(onAbort, SAMPLING_APPROVAL_TIMEOUT_MS);
+
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener("abort", onAbort);
+    pending.set(info.id, { info, finish });
+    publishMCPEvent({ type: "sampling.request", request: info });
+  });
+}
+
+/**
+ * Sampling requests waiting for the user (for the /api/mcp/events snapshot)
+ */
+export function getPendingSamplingRequests(): SamplingRequestInfo[] {
+  return Array.from(pending.values()).map((p) => p.info);
+}
+
+/**
+ * Deliver the user's decision for a pending sampling request
+ * Returns false if no request with that ID is waiting
+ */
+export function resolveSamplingRequest(requestId: string, approved: boolean): boolean {
+  const request = pending.get(requestId);
+  if (!request) return false;
+
+  request.finish(approved);
+  return true;
+}
+
+/**
+ * Answer sampling/createMessage for a connection
+ * maxTokens is capped per server, and tokens used by the server count against its budget
+ * Limits are read from the current config, so edits apply to the next request
+ */
+export function registerSamplingHandler(client: Client, getConfig: () => MCPServerConfig): void {
+  client.setRequestHandler(CreateMessageRequestSchema, async (request, extra) => {
+    const config = getConfig();
+    const { messages, systemPrompt, modelPreferences } = request.params;
+
+    const usedTokens = usage.get(config.id) ?? 0;
+    const remaining = config.samplingTokenBudget !== undefined ? config.samplingTokenBudget - usedTokens : Infinity;
+    if (remaining <= 0) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Sampling token budget of ${config.samplingTokenBudget} tokens is used up for this server`
+      );
+    }
+
+    const modelHints = modelPreferences?.hints?.flatMap((hint) => (hint.name ? [hint.name] : []));
+    let llm: ReturnType<typeof resolveLLMFromHints>;
+    try {
+      llm = resolveLLMFromHints(modelHints);
+    } catch (error) {
+      throw new McpError(ErrorCode.InternalError, error instanceof Error ? error.message : "No LLM available");
+    }
+    const { provider, model } = llm;
+
+    const info: SamplingRequestInfo = {
+      id: `sr_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+      serverId: config.id,
+      serverName: config.name,
+      systemPrompt,
+      messages: messages.map((m) => ({ role: m.role, text: toText(m.content) })),
+      modelHints,
+      model: `${provider.id}/${model}`,
+      maxTokens: Math.min(request.params.maxTokens, config.samplingMaxTokens ?? DEFAULT_SAMPLING_MAX_TOKENS, remaining),
+      requestedMaxTokens: request.params.maxTokens,
+      createdAt: Date.now(),
+    };
+
+    // Reserve the most this request may use, so concurrent requests can't overspend the budget;
+    // settled to the actual usage (none when rejected or failed) once it finishes
+    usage.set(config.id, (usage.get(config.id) ?? 0) + info.maxTokens);
+    let spentTokens = 0;
+
+    try {
+      if (!(await waitForDecision(info, extra.signal))) {
+        throw new McpError(USER_REJECTED, "User rejected sampling request");
+      }
+
+      const response = await provider.chat({
+        model,
+        system: systemPrompt,
+        messages: info.messages,
+        maxTokens: info.maxTokens,
+        signal: extra.signal,
+      });
+
+      spentTokens =
+        response.usage?.totalTokens ??
+        estimateTokens((systemPrompt ?? "") + info.messages.map((m) => m.text).join("\n") + response.text);
+
+      return {
+        role: "assistant" as const,
+        content: { type: "text" as const, text: response.text },
+        model,
+        stopReason: "endTurn",
+      };
+    } catch (error) {
+      // Rejected by the user
+      if (error instanceof McpError) throw error;
+      console.error(`Sampling request from ${config.name} failed:`, error);
+      throw new McpError(ErrorCode.InternalError, error instanceof Error ? error.message : "Sampling failed");
+    } finally {
+      usage.set(config.id, (usage.get(config.id) ?? 0) - info.maxTokens + spentTokens);
+    }
+  });
+}
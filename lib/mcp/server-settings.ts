@@ -0,0 +1,55 @@
+// Server settings edited while connected (server-only)
+// Tool policies, roots and the log level live on the server's stored config in MCPClientManager;
+// the client persists them with the server config
+
+import { mcpClientManager } from "./client-manager";
+import { setLogLevel } from "./logs";
+import { getToolPolicy } from "./policy";
+import type { MCPLogLevel, MCPRoot, MCPServerConfig, ToolApprovalPolicy } from "./types";
+
+// Apply an edit to a known server's config; false if the server is unknown
+function editConfig(serverId: string, edit: (config: MCPServerConfig) => MCPServerConfig): boolean {
+  const config = mcpClientManager.getConfig(serverId);
+  return !!config && mcpClientManager.updateConfig(edit(config));
+}
+
+/**
+ * Get the approval policy for a tool on a connected server
+ */
+export function getServerToolPolicy(serverId: string, toolName: string): ToolApprovalPolicy {
+  const tool = mcpClientManager.getCapabilities(serverId)?.tools.find((t) => t.name === toolName);
+  return getToolPolicy(mcpClientManager.getConfig(serverId), tool ?? { name: toolName });
+}
+
+/**
+ * Update a tool's approval policy for the current connection
+ */
+export function setServerToolPolicy(serverId: string, toolName: string, policy: ToolApprovalPolicy): boolean {
+  return editConfig(serverId, (config) => ({
+    ...config,
+    toolPolicies: { ...config.toolPolicies, [toolName]: policy },
+  }));
+}
+
+/**
+ * Replace a server's roots; a connected server is told to re-list them
+ */
+export async function setServerRoots(serverId: string, roots: MCPRoot[]): Promise<boolean> {
+  if (!editConfig(serverId, (config) => ({ ...config, roots }))) return false;
+
+  await mcpClientManager.getClient(serverId)?.sendRootsListChanged();
+  return true;
+}
+
+/**
+ * Change the level a server sends log messages at
+ */
+export async function setServerLogLevel(serverId: string, level: MCPLogLevel): Promise<boolean> {
+  if (!editConfig(serverId, (config) => ({ ...config, logLevel: level }))) return false;
+
+  const client = mcpClientManager.getClient(serverId);
+  if (client) {
+    await setLogLevel(client, level);
+  }
+  return true;
+}
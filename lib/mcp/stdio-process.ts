@@ -0,0 +1,91 @@
+// STDIO server processes (server-only)
+// stderr is piped into a per-server buffer and the PID and exit are recorded,
+// so a server that crashes on start shows its real error instead of "Connection closed"
+
+import type { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import type { MCPProcessInfo } from "./types";
+
+// stderr kept per process; older output is dropped
+const MAX_STDERR_CHARS = 16_000;
+
+export interface StdioProcessHandlers {
+  onSpawn: (pid: number) => void;
+  onStderr: (text: string) => void;
+  onExit: (crashed: boolean) => void;
+}
+
+/**
+ * Report the lifecycle of the process a transport spawns
+ * The transport must be created with `stderr: "pipe"`
+ * Exit codes aren't exposed by the transport; an exit nobody asked for (close()) counts as a crash
+ */
+export function watchStdioProcess(transport: StdioClientTransport, handlers: StdioProcessHandlers): void {
+  // Available right away when piped, before the process starts
+  transport.stderr?.on("data", (chunk: Buffer) => handlers.onStderr(chunk.toString()));
+
+  let closing = false;
+  let exited = false;
+
+  const close = transport.close.bind(transport);
+  transport.close = async () => {
+    closing = true;
+    await close();
+  };
+
+  const start = transport.start.bind(transport);
+  transport.start = async () => {
+    await start();
+    if (transport.pid !== null) {
+      handlers.onSpawn(transport.pid);
+    }
+    // The transport closes once its process exits (or is stopped by close()).
+    // Recorded before the client reacts, since a dropped connection is closed right away
+    const onclose = transport.onclose;
+    transport.onclose = () => {
+      if (!exited) {
+        exited = true;
+        handlers.onExit(!closing);
+      }
+      onclose?.();
+    };
+  };
+}
+
+/**
+ * Latest process info per key (server ID)
+ */
+export class StdioProcessTracker {
+  private processes: Map<string, MCPProcessInfo> = new Map();
+
+  /**
+   * Handlers for a new process; the previous process's info is dropped
+   * onExit is only called while the process is still the latest one
+   */
+  track(key: string, onExit: () => void): StdioProcessHandlers {
+    const info: MCPProcessInfo = { pid: 0, stderr: "" };
+    this.processes.delete(key);
+
+    return {
+      onSpawn: (pid) => {
+        info.pid = pid;
+        this.processes.set(key, info);
+      },
+      onStderr: (text) => {
+        info.stderr = (info.stderr + text).slice(-MAX_STDERR_CHARS);
+      },
+      onExit: (crashed) => {
+        info.crashed = crashed;
+        info.exitedAt = Date.now();
+        if (this.processes.get(key) === info) onExit();
+      },
+    };
+  }
+
+  /**
+   * Snapshot of the latest process of a server
+   */
+  get(key: string): MCPProcessInfo | undefined {
+    const info = this.processes.get(key);
+    return info && { ...info };
+  }
+}
@@ -118,12 +118,21 @@ export const mcpStorage = {
     return {
       version: STORAGE_VERSION,
       exportedAt: Date.now(),
-      servers: servers.map(({ name, transportType, stdioConfig, httpConfig, enabled }) => ({
-        name,
-        transportType,
-        stdioConfig,
-        httpConfig,
-        enabled,
+      servers: servers.map((server) => ({
+        name: server.name,
+        transportType: server.transportType,
+        stdioConfig: server.stdioConfig,
+        httpConfig: server.httpConfig,
+        enabled: server.enabled,
+        maxConcurrentCalls: server.maxConcurrentCalls,
+        toolPolicies: server.toolPolicies,
+        requestTimeoutMs: server.requestTimeoutMs,
+        toolTimeouts: server.toolTimeouts,
+        maxRetries: server.maxRetries,
+        samplingMaxTokens: server.samplingMaxTokens,
+        samplingTokenBudget: server.samplingTokenBudget,
+        roots: server.roots,
+        logLevel: server.logLevel,
       })),
     };
   },
@@ -0,0 +1,55 @@
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { watchStdioProcess, type StdioProcessHandlers } from "./stdio-process";
+import type { MCPServerConfig } from "./types";
+
+/**
+ * Create transport based on config
+ * For STDIO servers, processHandlers receive the stderr output and lifecycle of the process
+ */
+export async function createTransport(config: MCPServerConfig, processHandlers?: StdioProcessHandlers) {
+  switch (config.transportType) {
+    case "stdio": {
+      if (!config.stdioConfig) {
+        throw new Error("STDIO config is required for STDIO transport");
+      }
+      const transport = new StdioClientTransport({
+        command: config.stdioConfig.command,
+        args: config.stdioConfig.args,
+        env: config.stdioConfig.env,
+        cwd: config.stdioConfig.cwd,
+        stderr: processHandlers ? "pipe" : "inherit",
+      });
+      if (processHandlers) {
+        watchStdioProcess(transport, processHandlers);
+      }
+      return transport;
+    }
+
+    case "streamable-http": {
+      if (!config.httpConfig) {
+        throw new Error("HTTP config is required for Streamable HTTP transport");
+      }
+      return new StreamableHTTPClientTransport(
+        new URL(config.httpConfig.url),
+        {
+          requestInit: {
+            headers: config.httpConfig.headers,
+          },
+        }
+      );
+    }
+
+    case "sse": {
+      if (!config.httpConfig) {
+        throw new Error("HTTP config is required for SSE transport");
+      }
+      // SSEClientTransport only accepts URL
+      return new SSEClientTransport(new URL(config.httpConfig.url));
+    }
+
+    default:
+      throw new Error(`Unsupported transport type: ${config.transportType}`);
+  }
+}
@@ -14,6 +14,18 @@ export interface HttpConfig {
   headers?: Record<string, string>;
 }
 
+// Whether the chat may call a tool: run it, ask the user first, or refuse
+export type ToolApprovalPolicy = "allow" | "ask" | "deny";
+
+// Syslog severities used by MCP logging
+export type MCPLogLevel = "debug" | "info" | "notice" | "warning" | "error" | "critical" | "alert" | "emergency";
+
+// Directory a server may work in (answered to roots/list)
+export interface MCPRoot {
+  uri: string; // Absolute directory path or file:// URI
+  name?: string;
+}
+
 export interface MCPServerConfig {
   id: string;
   name: string;
@@ -21,25 +33,57 @@ export interface MCPServerConfig {
   stdioConfig?: StdioConfig;
   httpConfig?: HttpConfig;
   enabled: boolean;
+  maxConcurrentCalls?: number; // Parallel tool calls allowed on this server (default 4)
+  requestTimeoutMs?: number; // Timeout per request attempt (default 30s)
+  toolTimeouts?: Record<string, number>; // Per-tool timeout overrides in ms, by tool name
+  maxRetries?: number; // Retries after transport failures for idempotent requests (default 2)
+  toolPolicies?: Record<string, ToolApprovalPolicy>; // Per-tool approval policy by tool name (default from annotations)
+  samplingMaxTokens?: number; // Cap on maxTokens of each sampling request (default 1024)
+  samplingTokenBudget?: number; // Total sampling tokens allowed per server (default unlimited)
+  roots?: MCPRoot[]; // Workspace directories exposed to the server
+  logLevel?: MCPLogLevel; // Minimum level the server sends log messages for (default "info")
   createdAt: number;
   updatedAt: number;
 }
 
 // MCP Server Status
-export type ConnectionStatus = "disconnected" | "connecting" | "connected" | "error";
+export type ConnectionStatus = "disconnected" | "connecting" | "connected" | "reconnecting" | "error";
 
 export interface MCPServerStatus {
   serverId: string;
   status: ConnectionStatus;
   error?: string;
   lastConnected?: number;
+  reconnectAttempt?: number; // While reconnecting: attempt number (1-based)
+  nextRetryAt?: number; // While reconnecting: when the next attempt starts
+  process?: MCPProcessInfo; // STDIO servers: the latest server process
+}
+
+// Child process of a STDIO server
+export interface MCPProcessInfo {
+  pid: number;
+  exitedAt?: number;
+  crashed?: boolean; // Exited without being stopped by the client
+  stderr: string; // Latest output (older output is dropped)
 }
 
 // MCP Server Capabilities (from server)
+
+// Behaviour hints declared by the server (untrusted; used for defaults only)
+export interface MCPToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean; // Does not modify its environment
+  destructiveHint?: boolean; // May delete or overwrite (spec default: true when not read-only)
+  idempotentHint?: boolean; // Repeating a call with the same arguments has no extra effect
+  openWorldHint?: boolean; // Interacts with external entities
+}
+
 export interface MCPTool {
   name: string;
+  title?: string;
   description?: string;
   inputSchema?: Record<string, unknown>;
+  annotations?: MCPToolAnnotations;
 }
 
 export interface MCPPrompt {
@@ -59,12 +103,62 @@ export interface MCPResource {
   mimeType?: string;
 }
 
+// Parameterised resource: an RFC 6570 URI template such as file:///{path}
+export interface MCPResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
 export interface MCPServerCapabilities {
   tools: MCPTool[];
   prompts: MCPPrompt[];
   resources: MCPResource[];
+  resourceTemplates: MCPResourceTemplate[];
+  resourcesNextCursor?: string; // Set when more resources can be loaded on demand
 }
 
+// Live server state, pushed to clients over /api/mcp/events
+export interface MCPServerState {
+  status: MCPServerStatus;
+  capabilities: MCPServerCapabilities | null;
+}
+
+// A log message sent by a server (notifications/message)
+export interface MCPLogEntry {
+  id: number; // Increasing per server
+  level: MCPLogLevel;
+  logger?: string;
+  data: unknown;
+  timestamp: number;
+}
+
+export interface SetLogLevelRequest {
+  serverId: string;
+  level: MCPLogLevel;
+}
+
+// A sampling/createMessage request from a server, waiting for the user's approval
+export interface SamplingRequestInfo {
+  id: string;
+  serverId: string;
+  serverName: string;
+  systemPrompt?: string;
+  messages: Array<{ role: "user" | "assistant"; text: string }>; // Non-text content as placeholders
+  modelHints?: string[];
+  model: string; // "provider/model" the request will run on
+  maxTokens: number; // After the server's limit
+  requestedMaxTokens: number;
+  createdAt: number;
+}
+
+export type MCPServerEvent =
+  | { type: "snapshot"; servers: MCPServerState[]; samplingRequests: SamplingRequestInfo[] } // Sent once on subscribe
+  | { type: "server"; server: MCPServerState } // A server's status or capabilities changed
+  | { type: "sampling.request"; request: SamplingRequestInfo } // Approve via POST /api/mcp/sampling
+  | { type: "sampling.resolved"; requestId: string }; // Answered (in any tab), cancelled or timed out
+
 // API Request/Response Types
 export interface ConnectServerRequest {
   serverId: string;
@@ -91,6 +185,36 @@ export interface ReadResourceRequest {
   uri: string;
 }
 
+export interface LoadMoreResourcesRequest {
+  serverId: string;
+}
+
+export interface SetToolPolicyRequest {
+  serverId: string;
+  toolName: string;
+  policy: ToolApprovalPolicy;
+}
+
+export interface UpdateServerConfigRequest {
+  config: MCPServerConfig;
+}
+
+export interface SetRootsRequest {
+  serverId: string;
+  roots: MCPRoot[];
+}
+
+export interface ToolApprovalRequest {
+  toolCallId: string;
+  approved: boolean;
+  arguments?: Record<string, unknown>; // Edited arguments to call the tool with
+}
+
+export interface SamplingDecisionRequest {
+  requestId: string;
+  approved: boolean;
+}
+
 export interface MCPApiResponse<T = unknown> {
   success: boolean;
   data?: T;
@@ -110,15 +234,70 @@ export interface MCPExportData {
   servers: Omit<MCPServerConfig, "id" | "createdAt" | "updatedAt">[];
 }
 
+// Latest notifications/progress of a running tool call
+export interface ToolCallProgress {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+// One field of an elicitation form: a primitive, a single-select enum or a multi-select enum
+export interface ElicitationFieldSchema {
+  type: "string" | "number" | "integer" | "boolean" | "array";
+  title?: string;
+  description?: string;
+  format?: "email" | "uri" | "date" | "date-time";
+  enum?: string[];
+  enumNames?: string[]; // Legacy titles for enum values
+  oneOf?: Array<{ const: string; title: string }>; // Titled single select
+  items?: { type?: "string"; enum?: string[]; anyOf?: Array<{ const: string; title: string }> }; // Multi select
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  default?: string | number | boolean | string[];
+}
+
+export type ElicitationContent = Record<string, string | number | boolean | string[]>;
+export type ElicitationAction = "accept" | "decline" | "cancel";
+
+// Structured input a server asks the user for in the middle of a tool call (elicitation/create)
+export interface ElicitationRequestInfo {
+  id: string;
+  message: string;
+  requestedSchema: {
+    type: "object";
+    properties: Record<string, ElicitationFieldSchema>;
+    required?: string[];
+  };
+}
+
+export interface ElicitationResponseRequest {
+  requestId: string;
+  action: ElicitationAction;
+  content?: ElicitationContent; // Only with "accept"
+}
+
 // Tool Call Info for Chat UI
-export type ToolCallStatus = "calling" | "success" | "error";
+export type ToolCallStatus = "pending_approval" | "calling" | "success" | "error" | "rejected";
 
 export interface ToolCallInfo {
   id: string;
   toolName: string;
   serverId: string;
+  serverName?: string;
+  functionName?: string; // Name the model used for this tool (for rebuilding history)
+  toolTitle?: string;
+  annotations?: MCPToolAnnotations;
   arguments?: Record<string, unknown>;
   status: ToolCallStatus;
+  timeoutMs?: number; // Timeout applied to each attempt
+  timedOut?: boolean;
+  retries?: number; // Retries after transport failures
+  progress?: ToolCallProgress;
+  elicitation?: ElicitationRequestInfo; // The server is waiting for input from the user
   result?: unknown;
   error?: string;
   startedAt: number;
@@ -0,0 +1,46 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import type { MCPApiResponse, MCPServerEvent, SamplingRequestInfo } from "./types";
+
+/**
+ * Sampling requests from servers that wait for the user (live across tabs)
+ * The provider forwards the snapshot and sampling events of /api/mcp/events to applySamplingEvent
+ */
+export function useSamplingRequests() {
+  const [samplingRequests, setSamplingRequests] = useState<SamplingRequestInfo[]>([]);
+
+  const applySamplingEvent = useCallback((event: MCPServerEvent) => {
+    switch (event.type) {
+      case "snapshot":
+        setSamplingRequests(event.samplingRequests);
+        break;
+      case "sampling.request":
+        setSamplingRequests((prev) => [...prev, event.request]);
+        break;
+      case "sampling.resolved":
+        setSamplingRequests((prev) => prev.filter((r) => r.id !== event.requestId));
+        break;
+    }
+  }, []);
+
+  // Approve or reject a sampling request (the resolved event removes it in every tab)
+  const respondToSampling = useCallback(async (requestId: string, approved: boolean) => {
+    try {
+      const response = await fetch("/api/mcp/sampling", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ requestId, approved }),
+      });
+      const result: MCPApiResponse = await response.json();
+      if (!result.success) {
+        // Already answered elsewhere, cancelled or timed out
+        setSamplingRequests((prev) => prev.filter((r) => r.id !== requestId));
+      }
+    } catch (error) {
+      console.error("Failed to answer sampling request:", error);
+    }
+  }, []);
+
+  return { samplingRequests, respondToSampling, applySamplingEvent };
+}
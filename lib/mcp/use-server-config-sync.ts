@@ -0,0 +1,59 @@
+"use client";
+
+import { useCallback, type Dispatch, type SetStateAction } from "react";
+import { mcpStorage } from "./storage";
+import type { MCPLogLevel, MCPServerConfig, ToolApprovalPolicy } from "./types";
+
+// Tell the server about an edit; when it isn't connected the stored config applies on the next connect
+async function postSetting(url: string, body: unknown, description: string): Promise<void> {
+  try {
+    await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    console.error(`Error applying ${description}:`, error);
+  }
+}
+
+/**
+ * Server config edits: stored in localStorage and applied to the live connection
+ */
+export function useServerConfigSync(setServers: Dispatch<SetStateAction<MCPServerConfig[]>>) {
+  const updateServer = useCallback((id: string, updates: Partial<Omit<MCPServerConfig, "id" | "createdAt">>) => {
+    const previous = mcpStorage.getServer(id);
+    const updated = mcpStorage.updateServer(id, updates);
+    if (!updated) return updated;
+
+    setServers((prev) => prev.map((s) => (s.id === id ? updated : s)));
+
+    // Timeouts, retries and limits apply to a live connection without reconnecting
+    postSetting("/api/mcp/config", { config: updated }, "server config");
+
+    // Connected servers are told about new roots right away
+    if (JSON.stringify(previous?.roots ?? []) !== JSON.stringify(updated.roots ?? [])) {
+      postSetting("/api/mcp/roots", { serverId: id, roots: updated.roots ?? [] }, "roots");
+    }
+    return updated;
+  }, [setServers]);
+
+  // Set a tool's approval policy (persisted with the server config, applied to the live connection)
+  const setToolPolicy = useCallback(async (serverId: string, toolName: string, policy: ToolApprovalPolicy) => {
+    const server = mcpStorage.getServer(serverId);
+    if (!server) return;
+
+    updateServer(serverId, {
+      toolPolicies: { ...server.toolPolicies, [toolName]: policy },
+    });
+    await postSetting("/api/mcp/tools/policy", { serverId, toolName, policy }, "tool policy");
+  }, [updateServer]);
+
+  // Change the level a server sends log messages at
+  const setLogLevel = useCallback(async (serverId: string, level: MCPLogLevel) => {
+    updateServer(serverId, { logLevel: level });
+    await postSetting("/api/mcp/logs", { serverId, level }, "log level");
+  }, [updateServer]);
+
+  return { updateServer, setToolPolicy, setLogLevel };
+}
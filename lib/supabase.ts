@@ -22,6 +22,7 @@ export interface Message {
 export interface ExtendedMessageData {
   text: string;
   toolCalls?: unknown[];
+  stopped?: boolean; // Generation was stopped by the user before it finished
 }
 
 // Marker to identify extended message format
@@ -93,7 +94,9 @@ export async function getMessages(sessionId: string): Promise<Message[]> {
 /**
  * Get messages with extended data (including tool calls)
  */
-export async function getMessagesExtended(sessionId: string): Promise<Array<Message & { toolCalls?: unknown[] }>> {
+export async function getMessagesExtended(
+  sessionId: string
+): Promise<Array<Message & { toolCalls?: unknown[]; stopped?: boolean }>> {
   const { data, error } = await supabase
     .from("chat_messages")
     .select("role, content")
@@ -115,6 +118,7 @@ export async function getMessagesExtended(sessionId: string): Promise<Array<Mess
           role: row.role,
           content: parsed.text,
           toolCalls: parsed.toolCalls,
+          stopped: parsed.stopped,
         };
       } catch (e) {
         console.error("Failed to parse extended message:", e);
@@ -126,13 +130,13 @@ export async function getMessagesExtended(sessionId: string): Promise<Array<Mess
 }
 
 /**
- * Encode message with tool calls for storage
+ * Encode message with tool calls (and the stopped marker) for storage
  */
-export function encodeExtendedMessage(text: string, toolCalls?: unknown[]): string {
-  if (!toolCalls || toolCalls.length === 0) {
+export function encodeExtendedMessage(text: string, toolCalls?: unknown[], stopped?: boolean): string {
+  if ((!toolCalls || toolCalls.length === 0) && !stopped) {
     return text;
   }
-  const data: ExtendedMessageData = { text, toolCalls };
+  const data: ExtendedMessageData = { text, toolCalls, stopped: stopped || undefined };
   return EXTENDED_MESSAGE_MARKER + JSON.stringify(data);
 }
 
@@ -308,6 +312,56 @@ export async function hasAnySessions(): Promise<boolean> {
   return (count ?? 0) > 0;
 }
 
+// ============================================
+// Context Summary Functions
+// ============================================
+
+// Rolling summary of earlier turns, stored on chat_sessions
+// (columns: summary text, summary_message_count int4)
+export interface SessionSummary {
+  text: string;
+  messageCount: number; // Leading messages folded into the summary
+}
+
+/**
+ * Get the context summary of a session (null if none yet)
+ */
+export async function getSessionSummary(sessionId: string): Promise<SessionSummary | null> {
+  const { data, error } = await supabase
+    .from("chat_sessions")
+    .select("summary, summary_message_count")
+    .eq("id", sessionId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching session summary:", error);
+    return null;
+  }
+
+  if (!data || !data.summary_message_count) {
+    return null;
+  }
+
+  return { text: data.summary ?? "", messageCount: data.summary_message_count };
+}
+
+/**
+ * Save the context summary of a session
+ */
+export async function updateSessionSummary(sessionId: string, summary: SessionSummary): Promise<boolean> {
+  const { error } = await supabase
+    .from("chat_sessions")
+    .update({ summary: summary.text, summary_message_count: summary.messageCount })
+    .eq("id", sessionId);
+
+  if (error) {
+    console.error("Error updating session summary:", error);
+    return false;
+  }
+
+  return true;
+}
+
 // ============================================
 // Storage Functions for Chat Images
 // ============================================
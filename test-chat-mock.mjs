@@ -0,0 +1,159 @@
+// Offline chat check: drives /api/chat with the mock LLM (LLM_PROVIDER=mock) and asserts
+// the tool call round trips scripted in fixtures/mock-llm/tool-calls.json.
+// Starts `next dev` on MOCK_CHAT_PORT (default 3100) unless MOCK_CHAT_URL points at a running
+// server that was started with LLM_PROVIDER=mock and LLM_MOCK_FIXTURE=fixtures/mock-llm/tool-calls.json.
+import { spawn } from 'child_process';
+import { fileURLToPath } from 'url';
+import path from 'path';
+
+const root = path.dirname(fileURLToPath(import.meta.url));
+const port = process.env.MOCK_CHAT_PORT ?? '3100';
+const baseUrl = process.env.MOCK_CHAT_URL ?? `http://localhost:${port}`;
+const serverId = 'mock';
+
+function assert(condition, message) {
+  if (!condition) throw new Error(`Assertion failed: ${message}`);
+  console.log(`   ✅ ${message}`);
+}
+
+function startNext() {
+  const child = spawn(path.join(root, 'node_modules/.bin/next'), ['dev', '--turbopack', '-p', port], {
+    cwd: root,
+    // Own process group so the dev server and its workers stop together
+    detached: true,
+    stdio: ['ignore', 'ignore', 'inherit'],
+    env: {
+      ...process.env,
+      LLM_PROVIDER: 'mock',
+      LLM_MODEL: '',
+      LLM_MOCK_FIXTURE: 'fixtures/mock-llm/tool-calls.json',
+      LLM_MOCK_DELAY_MS: '0',
+      // Nothing is stored (no session ID, no images), but the client needs a URL to load
+      NEXT_PUBLIC_SUPABASE_URL: process.env.NEXT_PUBLIC_SUPABASE_URL || 'http://localhost:54321',
+      NEXT_PUBLIC_SUPABASE_ANON_KEY: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || 'mock-anon-key',
+    },
+  });
+  return () => {
+    try {
+      process.kill(-child.pid, 'SIGTERM');
+    } catch {
+      // Already exited
+    }
+  };
+}
+
+async function waitForServer(timeoutMs = 180_000) {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    try {
+      const response = await fetch(`${baseUrl}/api/mcp/status?serverId=${serverId}`);
+      if (response.ok) return;
+    } catch {
+      // Not listening yet
+    }
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+  }
+  throw new Error(`${baseUrl} did not start within ${timeoutMs / 1000}s`);
+}
+
+// Read the chat SSE stream into a list of events
+async function readChatEvents(response) {
+  const text = await response.text();
+  return text
+    .split('\n\n')
+    .map((block) => block.split('\n').find((line) => line.startsWith('data: ')))
+    .filter(Boolean)
+    .map((line) => JSON.parse(line.slice('data: '.length)));
+}
+
+// Send one user message and read the streamed events
+async function chat(message) {
+  const response = await fetch(`${baseUrl}/api/chat`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ messages: [{ role: 'user', content: message }] }),
+  });
+  assert(response.ok, `응답 상태 ${response.status}`);
+
+  const events = await readChatEvents(response);
+  return {
+    events,
+    start: events.find((e) => e.type === 'tool_call.start'),
+    result: events.find((e) => e.type === 'tool_call.result'),
+    text: events.filter((e) => e.type === 'text.delta').map((e) => e.text).join(''),
+  };
+}
+
+async function testMockChat() {
+  console.log('🚀 Mock LLM 채팅 테스트 시작...\n');
+
+  const stopNext = process.env.MOCK_CHAT_URL ? () => {} : startNext();
+
+  try {
+    console.log(`1️⃣ ${baseUrl} 대기 중...`);
+    await waitForServer();
+    console.log('   ✅ 서버 준비 완료!\n');
+
+    console.log('2️⃣ Mock MCP 서버 연결...');
+    const connect = await fetch(`${baseUrl}/api/mcp/connect`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        id: serverId,
+        name: 'mock',
+        transportType: 'stdio',
+        stdioConfig: { command: process.execPath, args: [path.join(root, 'fixtures/mock-llm/mock-server.mjs')] },
+        enabled: true,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      }),
+    }).then((res) => res.json());
+    assert(connect.success, `MCP 서버 연결 (${connect.error ?? connect.data?.status})`);
+    console.log();
+
+    console.log('3️⃣ 채팅 요청: "What time is it?"');
+    const { events, start, result, text } = await chat('What time is it?');
+    const resultText = result?.toolCall.result?.content?.[0]?.text ?? '';
+
+    assert(start?.toolCall.toolName === 'get_current_time', 'get_current_time 호출 시작');
+    assert(
+      start?.toolCall.arguments?.timezone === 'Asia/Seoul',
+      'fixture의 매개변수 전달 (timezone: Asia/Seoul)'
+    );
+    assert(result?.toolCall.status === 'success', `도구 호출 성공 (${result?.toolCall.error ?? result?.toolCall.status})`);
+    assert(resultText.includes('Asia/Seoul'), `도구 결과: ${resultText}`);
+    assert(text.includes('Checking the current time.'), '첫 번째 단계 텍스트 스트리밍');
+    assert(text.includes(`The tool returned:\n\n${resultText}`), '두 번째 단계에서 도구 결과 사용');
+    assert(!events.some((e) => e.type === 'error'), '오류 이벤트 없음');
+    assert(events.at(-1)?.type === 'done', 'done 이벤트로 종료');
+    console.log();
+
+    console.log('4️⃣ 채팅 요청: "Generate an image"');
+    const image = await chat('Generate an image');
+    const imageContent = image.result?.toolCall.result?.content?.find((c) => c.type === 'image');
+
+    assert(image.start?.toolCall.toolName === 'generate_image', 'generate_image 호출 시작');
+    assert(image.result?.toolCall.status === 'success', `도구 호출 성공 (${image.result?.toolCall.error ?? image.result?.toolCall.status})`);
+    // Without Storage the upload fails and the image keeps its base64 data
+    assert(
+      imageContent?.mimeType === 'image/png' && (imageContent.data || imageContent.storageUrl),
+      `이미지 결과 (${imageContent?.storageUrl ?? 'base64'})`
+    );
+    assert(image.text.includes('Here is the generated image.'), '이미지 결과 후 텍스트 스트리밍');
+    assert(image.events.at(-1)?.type === 'done', 'done 이벤트로 종료');
+
+    console.log('\n🎉 Mock LLM 채팅 테스트 통과!');
+  } finally {
+    await fetch(`${baseUrl}/api/mcp/disconnect`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ serverId }),
+    }).catch(() => {});
+    stopNext();
+  }
+}
+
+testMockChat().catch((error) => {
+  console.error(`\n❌ ${error.message}`);
+  process.exitCode = 1;
+});